@@ -0,0 +1,23 @@
+-- Governance Server D1 Schema
+-- Migration 0002: Pending relationships
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- ---------------------------------------------------------------------------
+-- pending_relationships
+-- `related` frontmatter entries whose target slug has not been synced yet.
+-- Resolved into document_relationships at the end of every sync run; rows that
+-- survive resolution point at unknown slugs and are surfaced as diagnostics.
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS pending_relationships (
+  from_id           TEXT NOT NULL REFERENCES documents(id),
+  target_slug       TEXT NOT NULL,
+  relationship_type TEXT NOT NULL
+                    CHECK (relationship_type IN (
+                      'authorized_by', 'implements', 'supersedes', 'references', 'evaluates', 'fulfills'
+                    )),
+  created_at        TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (from_id, relationship_type, target_slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_relationships_target ON pending_relationships (target_slug);
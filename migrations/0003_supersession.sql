@@ -0,0 +1,10 @@
+-- Governance Server D1 Schema
+-- Migration 0003: Supersession chain support
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- Successor lookups walk document_versions by predecessor
+CREATE INDEX IF NOT EXISTS idx_document_versions_predecessor ON document_versions (predecessor_id);
+
+-- A `supersedes` edge parked as pending keeps its version note until the predecessor is synced
+ALTER TABLE pending_relationships ADD COLUMN version_note TEXT;
@@ -0,0 +1,22 @@
+-- Governance Server D1 Schema
+-- Migration 0004: Sync diagnostics
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- ---------------------------------------------------------------------------
+-- sync_diagnostics
+-- Per-file frontmatter warnings and errors found while syncing a commit.
+-- Rows for a (commit, path) pair are replaced each time that file is synced.
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS sync_diagnostics (
+  id          TEXT PRIMARY KEY,            -- "<commit_sha>:<path>:<n>"
+  commit_sha  TEXT NOT NULL,
+  path        TEXT NOT NULL,               -- repo-relative file path
+  severity    TEXT NOT NULL
+              CHECK (severity IN ('error', 'warning')),
+  code        TEXT NOT NULL,               -- e.g. "unknown_domain", "invalid_date"
+  message     TEXT NOT NULL,
+  created_at  TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_diagnostics_commit ON sync_diagnostics (commit_sha, path);
@@ -0,0 +1,28 @@
+-- Governance Server D1 Schema
+-- Migration 0005: Sync run history
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- ---------------------------------------------------------------------------
+-- sync_runs
+-- One row per GovernanceSyncWorkflow / GovernanceReconcileWorkflow instance.
+-- The latest succeeded row is the commit D1 currently reflects.
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id               TEXT PRIMARY KEY,       -- workflow instance ID
+  workflow         TEXT NOT NULL
+                   CHECK (workflow IN ('sync', 'reconcile')),
+  trigger_source   TEXT NOT NULL
+                   CHECK (trigger_source IN ('push', 'resync', 'cron')),
+  commit_sha       TEXT,                   -- NULL until a reconcile run resolves its commit
+  status           TEXT NOT NULL DEFAULT 'running'
+                   CHECK (status IN ('running', 'succeeded', 'failed')),
+  files_processed  INTEGER NOT NULL DEFAULT 0,
+  error            TEXT,
+  started_at       TEXT NOT NULL,          -- ISO timestamp
+  finished_at      TEXT,                   -- ISO timestamp
+  duration_ms      INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs (started_at);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_commit ON sync_runs (commit_sha);
@@ -0,0 +1,20 @@
+-- Governance Server D1 Schema
+-- Migration 0006: Slug aliases for renamed and moved documents
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- ---------------------------------------------------------------------------
+-- document_aliases
+-- A slug a document held before its file was renamed or moved. The document
+-- keeps its ID; detail lookups and relationship targets resolve the old slug
+-- through this table. A live document claiming the slug again replaces the alias.
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS document_aliases (
+  slug         TEXT PRIMARY KEY,
+  document_id  TEXT NOT NULL REFERENCES documents(id),
+  r2_key       TEXT NOT NULL,              -- R2 key the document was stored at under this slug
+  commit_sha   TEXT,                       -- commit that renamed the file
+  created_at   TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_aliases_document ON document_aliases (document_id);
@@ -0,0 +1,105 @@
+-- Governance Server D1 Schema
+-- Migration 0007: Branch-scoped document namespaces
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+--
+-- Preview branches (SYNC_BRANCHES) sync alongside main. Every document row
+-- belongs to one ref; slugs are unique per ref rather than globally. Rows in
+-- the tables keyed by document ID need no ref column: IDs outside main carry
+-- a "<ref>:" prefix, so they never collide with canonical IDs.
+--
+-- SQLite cannot change a UNIQUE constraint in place, so documents and
+-- document_aliases are rebuilt. Rows referencing documents are parked in
+-- backup tables while the old table is dropped (a drop with referencing rows
+-- would leave foreign key violations behind) and restored afterwards.
+
+PRAGMA defer_foreign_keys = true;
+
+CREATE TABLE _document_versions_backup AS SELECT * FROM document_versions;
+CREATE TABLE _document_domains_backup AS SELECT * FROM document_domains;
+CREATE TABLE _document_relationships_backup AS SELECT * FROM document_relationships;
+CREATE TABLE _document_scope_backup AS SELECT * FROM document_scope;
+CREATE TABLE _pending_relationships_backup AS SELECT * FROM pending_relationships;
+CREATE TABLE _document_aliases_backup AS SELECT * FROM document_aliases;
+DELETE FROM document_versions;
+DELETE FROM document_domains;
+DELETE FROM document_relationships;
+DELETE FROM document_scope;
+DELETE FROM pending_relationships;
+DROP TABLE document_aliases;
+
+-- ---------------------------------------------------------------------------
+-- documents — add ref, unique (ref, slug)
+-- ---------------------------------------------------------------------------
+CREATE TABLE documents_new (
+  id            TEXT PRIMARY KEY,          -- UUID or stable slug; "<ref>:<id>" outside main
+  ref           TEXT NOT NULL DEFAULT 'main', -- branch the row was synced from
+  slug          TEXT NOT NULL,             -- URL-safe identifier e.g. "operating-agreement"
+  type          TEXT NOT NULL              -- 'agreement' | 'policy' | 'proposal' | 'other'
+                CHECK (type IN ('agreement', 'policy', 'proposal', 'other')),
+  title         TEXT NOT NULL,
+  status        TEXT NOT NULL DEFAULT 'draft'
+                CHECK (status IN ('draft', 'active', 'superseded', 'retired')),
+  effective_from TEXT,                     -- ISO date string
+  effective_to   TEXT,                     -- ISO date string; NULL means currently in effect
+  content_hash  TEXT,                      -- SHA-256 of R2 content for change detection
+  enacted_by    TEXT,                      -- Snapshot proposal ID that enacted this document
+  r2_key        TEXT,                      -- R2 object key for raw markdown content
+  created_at    TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at    TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (ref, slug)
+);
+
+INSERT INTO documents_new (
+  id, ref, slug, type, title, status, effective_from, effective_to,
+  content_hash, enacted_by, r2_key, created_at, updated_at
+)
+SELECT
+  id, 'main', slug, type, title, status, effective_from, effective_to,
+  content_hash, enacted_by, r2_key, created_at, updated_at
+FROM documents;
+
+DROP TABLE documents;
+ALTER TABLE documents_new RENAME TO documents;
+
+CREATE INDEX IF NOT EXISTS idx_documents_type_status ON documents (ref, type, status);
+CREATE INDEX IF NOT EXISTS idx_documents_r2_key ON documents (r2_key);
+
+-- ---------------------------------------------------------------------------
+-- document_aliases — former slugs are unique per ref
+-- ---------------------------------------------------------------------------
+CREATE TABLE document_aliases (
+  ref          TEXT NOT NULL DEFAULT 'main',
+  slug         TEXT NOT NULL,
+  document_id  TEXT NOT NULL REFERENCES documents(id),
+  r2_key       TEXT NOT NULL,              -- R2 key the document was stored at under this slug
+  commit_sha   TEXT,                       -- commit that renamed the file
+  created_at   TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (ref, slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_aliases_document ON document_aliases (document_id);
+
+-- ---------------------------------------------------------------------------
+-- Restore rows referencing documents
+-- ---------------------------------------------------------------------------
+INSERT INTO document_versions SELECT * FROM _document_versions_backup;
+INSERT INTO document_domains SELECT * FROM _document_domains_backup;
+INSERT INTO document_relationships SELECT * FROM _document_relationships_backup;
+INSERT INTO document_scope SELECT * FROM _document_scope_backup;
+INSERT INTO pending_relationships SELECT * FROM _pending_relationships_backup;
+INSERT INTO document_aliases (ref, slug, document_id, r2_key, commit_sha, created_at)
+SELECT 'main', slug, document_id, r2_key, commit_sha, created_at FROM _document_aliases_backup;
+DROP TABLE _document_versions_backup;
+DROP TABLE _document_domains_backup;
+DROP TABLE _document_relationships_backup;
+DROP TABLE _document_scope_backup;
+DROP TABLE _pending_relationships_backup;
+DROP TABLE _document_aliases_backup;
+
+-- ---------------------------------------------------------------------------
+-- sync_runs — which ref each run synced
+-- ---------------------------------------------------------------------------
+ALTER TABLE sync_runs ADD COLUMN ref TEXT NOT NULL DEFAULT 'main';
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_ref ON sync_runs (ref, status, finished_at);
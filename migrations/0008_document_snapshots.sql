@@ -0,0 +1,50 @@
+-- Governance Server D1 Schema
+-- Migration 0008: Document history by commit
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+--
+-- Existing documents get their first snapshot on the next sync that touches
+-- them; run a forced resync after applying to snapshot the whole corpus.
+
+-- ---------------------------------------------------------------------------
+-- sync_commits
+-- Every commit a sync or reconcile run completed, with its commit timestamp.
+-- Orders document_snapshots and resolves `asOf=<sha>` queries.
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS sync_commits (
+  ref           TEXT NOT NULL DEFAULT 'main',
+  commit_sha    TEXT NOT NULL,
+  committed_at  TEXT NOT NULL,             -- ISO timestamp (UTC) of the commit
+  synced_at     TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (ref, commit_sha)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_commits_committed ON sync_commits (ref, committed_at);
+
+-- ---------------------------------------------------------------------------
+-- document_snapshots
+-- Immutable copy of a document row at each commit that changed it — content,
+-- status (including supersession and retirement), dates or slug. The state of
+-- a document at commit C is its latest snapshot with committed_at <= C's.
+-- r2_key points at the commit-versioned object under history/<sha>/.
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS document_snapshots (
+  id             TEXT PRIMARY KEY,         -- "<commit_sha>:<document_id>"
+  document_id    TEXT NOT NULL REFERENCES documents(id),
+  ref            TEXT NOT NULL DEFAULT 'main',
+  commit_sha     TEXT NOT NULL,
+  committed_at   TEXT NOT NULL,            -- copied from sync_commits for ordering
+  slug           TEXT NOT NULL,
+  type           TEXT NOT NULL,
+  title          TEXT NOT NULL,
+  status         TEXT NOT NULL,
+  effective_from TEXT,
+  effective_to   TEXT,
+  content_hash   TEXT,
+  enacted_by     TEXT,
+  r2_key         TEXT,                     -- history/<sha>/<live key>; NULL if the content was never captured
+  created_at     TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_snapshots_document ON document_snapshots (document_id, committed_at);
+CREATE INDEX IF NOT EXISTS idx_document_snapshots_ref ON document_snapshots (ref, committed_at);
@@ -0,0 +1,21 @@
+-- Governance Server D1 Schema
+-- Migration 0009: Full-text search over document titles and bodies
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- ---------------------------------------------------------------------------
+-- document_search
+-- FTS5 index of every live document, one row per documents.id. Sync replaces a
+-- document's row on upsert and deletes it on retire; `body` is the markdown
+-- rendered to plain text with frontmatter removed.
+--
+-- Existing documents are indexed by the next forced resync ("force": true).
+-- Note: wrangler d1 export cannot dump virtual tables — drop and recreate this
+-- table around an export, then resync.
+-- ---------------------------------------------------------------------------
+CREATE VIRTUAL TABLE IF NOT EXISTS document_search USING fts5(
+  document_id UNINDEXED,
+  title,
+  body,
+  tokenize = 'porter unicode61 remove_diacritics 2'
+);
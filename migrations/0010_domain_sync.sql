@@ -0,0 +1,14 @@
+-- Governance Server D1 Schema
+-- Migration 0010: Domains synced from domains.yml in the governance repo
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- ---------------------------------------------------------------------------
+-- domains
+-- Sync upserts every domain listed in domains.yml (by slug) and sets removed_at
+-- on domains the file no longer lists. Removed domains keep their row and
+-- document associations; a domain listed again is restored.
+-- The 0001 seed remains the starting set until the file first syncs.
+-- ---------------------------------------------------------------------------
+ALTER TABLE domains ADD COLUMN removed_at TEXT;
+ALTER TABLE domains ADD COLUMN updated_at TEXT;
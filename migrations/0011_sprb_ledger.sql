@@ -0,0 +1,50 @@
+-- Governance Server D1 Schema
+-- Migration 0011: Incremental SPRB holder index
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- ---------------------------------------------------------------------------
+-- sprb_transfers
+-- Every SPRB Transfer log from confirmed blocks, keyed by its position on
+-- chain so a block range scanned twice adds nothing. Values are uint256
+-- amounts in base units, stored as decimal strings (they exceed INTEGER).
+-- Rows are per contract, so changing SPRB_CONTRACT_ADDRESS starts a new ledger.
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS sprb_transfers (
+  contract        TEXT NOT NULL,  -- lowercased
+  block_number    INTEGER NOT NULL,
+  log_index       INTEGER NOT NULL,
+  tx_hash         TEXT NOT NULL,
+  from_address    TEXT NOT NULL,  -- lowercased; the zero address for mints
+  to_address      TEXT NOT NULL,  -- lowercased; the zero address for burns
+  value           TEXT NOT NULL,
+  block_timestamp TEXT,           -- ISO 8601
+  PRIMARY KEY (contract, block_number, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sprb_transfers_from ON sprb_transfers (contract, from_address);
+CREATE INDEX IF NOT EXISTS idx_sprb_transfers_to ON sprb_transfers (contract, to_address);
+
+-- ---------------------------------------------------------------------------
+-- sprb_balances
+-- Current balance per address, recomputed from sprb_transfers for every
+-- address a scanned range touches. Holders are the rows with balance != '0'.
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS sprb_balances (
+  contract        TEXT NOT NULL,  -- lowercased
+  address         TEXT NOT NULL,  -- lowercased
+  balance         TEXT NOT NULL,
+  updated_block   INTEGER NOT NULL,
+  PRIMARY KEY (contract, address)
+);
+
+-- ---------------------------------------------------------------------------
+-- sprb_index_state
+-- Checkpoint: the last block scanned, per contract. A contract with no row
+-- is scanned from SPRB_START_BLOCK.
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS sprb_index_state (
+  contract        TEXT PRIMARY KEY,  -- lowercased
+  last_block      INTEGER NOT NULL,
+  updated_at      TEXT NOT NULL DEFAULT (datetime('now'))
+);
@@ -0,0 +1,38 @@
+-- Governance Server D1 Schema
+-- Migration 0012: SPRB member lifecycle — join/exit points and balance history
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- ---------------------------------------------------------------------------
+-- sprb_balances
+-- A member joins when their balance goes from zero to positive and leaves
+-- when it returns to zero. first_acquired_* is the first join; last_exited_*
+-- the most recent exit (still set after a later re-join).
+-- ---------------------------------------------------------------------------
+ALTER TABLE sprb_balances ADD COLUMN first_acquired_block INTEGER;
+ALTER TABLE sprb_balances ADD COLUMN first_acquired_at TEXT;
+ALTER TABLE sprb_balances ADD COLUMN last_exited_block INTEGER;
+ALTER TABLE sprb_balances ADD COLUMN last_exited_at TEXT;
+
+-- ---------------------------------------------------------------------------
+-- sprb_balance_history
+-- An address's balance after each transfer that touched it. event marks the
+-- transfers that made it a member ('join') or ended its membership ('exit').
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS sprb_balance_history (
+  contract        TEXT NOT NULL,  -- lowercased
+  address         TEXT NOT NULL,  -- lowercased
+  block_number    INTEGER NOT NULL,
+  log_index       INTEGER NOT NULL,
+  balance         TEXT NOT NULL,  -- base units after the transfer, decimal
+  event           TEXT CHECK (event IN ('join', 'exit')),
+  block_timestamp TEXT,
+  PRIMARY KEY (contract, address, block_number, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sprb_balance_history_event ON sprb_balance_history (contract, event)
+  WHERE event IS NOT NULL;
+
+-- Rescan from SPRB_START_BLOCK so every address gets its lifecycle columns and
+-- history. Transfers already in the ledger are kept (the rescan skips them).
+DELETE FROM sprb_index_state;
@@ -0,0 +1,11 @@
+-- Governance Server D1 Schema
+-- Migration 0013: SPRB index backfill flag
+--
+-- Apply with: npm run db:migrate:local | db:migrate:remote
+
+-- ---------------------------------------------------------------------------
+-- sprb_index_state.caught_up
+-- Set once a cron run reaches the confirmed head. Until then the ledger is
+-- partial and member reads fall back to scanning the chain directly.
+-- ---------------------------------------------------------------------------
+ALTER TABLE sprb_index_state ADD COLUMN caught_up INTEGER NOT NULL DEFAULT 0;
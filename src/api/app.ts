@@ -14,6 +14,11 @@ import { roleRoutes } from './routes/sb/roles';
 import { groupRoutes } from './routes/sb/groups';
 import { agreementRoutes } from './routes/sb/agreements';
 import { policyRoutes } from './routes/sb/policies';
+import { documentRoutes } from './routes/sb/documents';
+import { domainRoutes } from './routes/sb/domains';
+import { searchRoutes } from './routes/sb/search';
+import { syncRoutes } from './routes/sb/sync';
+import { queryLastSuccessfulSync } from '../data/db';
 
 export const api = new Hono<{ Bindings: Env }>();
 
@@ -38,13 +43,29 @@ api.route('/api/v1/roles', roleRoutes);
 api.route('/api/v1/groups', groupRoutes);
 api.route('/api/v1/agreements', agreementRoutes);
 api.route('/api/v1/policies', policyRoutes);
+api.route('/api/v1/documents', documentRoutes);
+api.route('/api/v1/domains', domainRoutes);
+api.route('/api/v1/search', searchRoutes);
+api.route('/api/v1/sync', syncRoutes);
 
 // ---------------------------------------------------------------------------
 // Health check
 // ---------------------------------------------------------------------------
-api.get('/api/v1/health', (c) =>
-  c.json({ status: 'ok', service: 'governance-server', timestamp: new Date().toISOString() }),
-);
+api.get('/api/v1/health', async (c) => {
+  // Sync state is informational — a D1 hiccup must not fail the health check
+  const lastSync = await queryLastSuccessfulSync(c.env.GOVERNANCE_DB).catch((err) => {
+    console.error('Health check could not read sync_runs:', err);
+    return null;
+  });
+  return c.json({
+    status: 'ok',
+    service: 'governance-server',
+    timestamp: new Date().toISOString(),
+    lastSyncedCommit: lastSync
+      ? { commitSha: lastSync.commitSha, runId: lastSync.id, finishedAt: lastSync.finishedAt }
+      : null,
+  });
+});
 
 // ---------------------------------------------------------------------------
 // OpenAPI spec (placeholder — replace with @hono/zod-openapi in Phase 1.5)
@@ -60,14 +81,34 @@ api.get('/api/v1/openapi.json', (c) =>
     paths: {
       '/dao.json': { get: { summary: 'DAOIP-2 top-level DAO descriptor', tags: ['DAOIP-2'] } },
       '/api/v1/members': { get: { summary: 'List DAO members (SPRB holders)', tags: ['DAOIP-2'] } },
+      '/api/v1/members/{address}': { get: { summary: 'Member profile (address or ENS name)', tags: ['DAOIP-2'] } },
+      '/api/v1/members/{address}/documents': { get: { summary: 'Documents whose scope names the address', tags: ['DAOIP-2'] } },
       '/api/v1/proposals': { get: { summary: 'List Snapshot proposals', tags: ['DAOIP-2'] } },
       '/api/v1/activity': { get: { summary: 'Activity log', tags: ['DAOIP-2'] } },
       '/api/v1/governance': { get: { summary: 'Governance document', tags: ['DAOIP-2'] } },
       '/api/v1/contracts': { get: { summary: 'Contract addresses', tags: ['DAOIP-2'] } },
       '/api/v1/roles': { get: { summary: 'Hats role tree', tags: ['SuperBenefit'] } },
+      '/api/v1/roles/{hatId}/documents': { get: { summary: 'Documents whose scope names the hat', tags: ['SuperBenefit'] } },
       '/api/v1/groups': { get: { summary: 'Cells and working groups', tags: ['SuperBenefit'] } },
+      '/api/v1/groups/{id}/documents': { get: { summary: 'Documents whose scope names the group', tags: ['SuperBenefit'] } },
       '/api/v1/agreements': { get: { summary: 'Agreements', tags: ['SuperBenefit'] } },
+      '/api/v1/agreements/{id}/versions': { get: { summary: 'Agreement supersession lineage', tags: ['SuperBenefit'] } },
+      '/api/v1/agreements/{id}/content': { get: { summary: 'Agreement text (markdown, HTML or plain text by Accept header)', tags: ['SuperBenefit'] } },
       '/api/v1/policies': { get: { summary: 'Policies', tags: ['SuperBenefit'] } },
+      '/api/v1/policies/{id}/versions': { get: { summary: 'Policy supersession lineage', tags: ['SuperBenefit'] } },
+      '/api/v1/policies/{id}/content': { get: { summary: 'Policy text (markdown, HTML or plain text by Accept header)', tags: ['SuperBenefit'] } },
+      '/api/v1/documents': { get: { summary: 'Documents of any type and status', tags: ['SuperBenefit'] } },
+      '/api/v1/documents/{id}': { get: { summary: 'Document detail', tags: ['SuperBenefit'] } },
+      '/api/v1/documents/{id}/authority': { get: { summary: 'Authority chain up to root agreements, with enacting proposals', tags: ['SuperBenefit'] } },
+      '/api/v1/documents/{id}/graph': { get: { summary: 'Relationship graph around a document (JSON, DOT or Mermaid)', tags: ['SuperBenefit'] } },
+      '/api/v1/domains': { get: { summary: 'Governance domains (flat or tree)', tags: ['SuperBenefit'] } },
+      '/api/v1/domains/{slug}': { get: { summary: 'Domain with children, linked hat and documents', tags: ['SuperBenefit'] } },
+      '/api/v1/domains/{slug}/authority': { get: { summary: 'Who can decide in a domain: responsible hat, wearers, overriding hats and policies', tags: ['SuperBenefit'] } },
+      '/api/v1/search': { get: { summary: 'Full-text document search', tags: ['SuperBenefit'] } },
+      '/api/v1/sync/runs': { get: { summary: 'Sync workflow run history', tags: ['Sync'] } },
+      '/api/v1/sync/runs/{sha}/diagnostics': { get: { summary: 'Frontmatter warnings and errors for a synced commit', tags: ['Sync'] } },
+      '/api/v1/sync/unresolved-relationships': { get: { summary: 'Relationships pointing at unknown document slugs', tags: ['Sync'] } },
+      '/api/v1/sync/validations/{sha}': { get: { summary: 'Dry-run validation report for a pull request head commit', tags: ['Sync'] } },
     },
     externalDocs: {
       description: 'DAOIP-2 Specification',
@@ -0,0 +1,59 @@
+/**
+ * Shared handler for the /:id/content routes on agreements and policies.
+ *
+ * Serves the document body from R2 (frontmatter stripped) in the format the
+ * Accept header asks for:
+ *   text/markdown (default) · text/html · text/plain · application/json (heading outline)
+ *
+ * `?section=<anchor>` narrows any format to one section; see data/content.ts
+ * for how anchors are derived.
+ */
+
+import type { Context } from 'hono';
+import { accepts } from 'hono/accepts';
+import type { Document } from '../data/db';
+import { extractSection, listSections, renderHtml, renderPlainText, stripFrontmatter } from '../data/content';
+
+const FORMATS = ['text/markdown', 'text/html', 'text/plain', 'application/json'];
+
+// Rendered HTML is repo content: no scripts, frames or remote styles, even if
+// a link slips past the renderer's URL check
+const HTML_HEADERS = {
+  'Content-Type': 'text/html; charset=utf-8',
+  'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; img-src https: data:",
+  'X-Content-Type-Options': 'nosniff',
+};
+
+export async function documentContentResponse(
+  c: Context<{ Bindings: Env }>,
+  document: Document,
+): Promise<Response> {
+  const obj = document.r2Key ? await c.env.GOVERNANCE_CONTENT.get(document.r2Key) : null;
+  if (!obj) return c.json({ error: 'Document content not found' }, 404);
+
+  let markdown = stripFrontmatter(await obj.text());
+  const section = c.req.query('section');
+  if (section) {
+    const extracted = extractSection(markdown, section);
+    if (extracted === null) return c.json({ error: `No section with anchor "${section}"` }, 404);
+    markdown = extracted;
+  }
+
+  c.header('Vary', 'Accept');
+  switch (accepts(c, { header: 'Accept', supports: FORMATS, default: 'text/markdown' })) {
+    case 'text/html':
+      return c.body(renderHtml(markdown), 200, HTML_HEADERS);
+    case 'text/plain':
+      return c.body(renderPlainText(markdown), 200, { 'Content-Type': 'text/plain; charset=utf-8' });
+    case 'application/json':
+      return c.json({
+        id: document.id,
+        slug: document.slug,
+        title: document.title,
+        section: section ?? null,
+        sections: listSections(markdown),
+      });
+    default:
+      return c.body(markdown, 200, { 'Content-Type': 'text/markdown; charset=utf-8' });
+  }
+}
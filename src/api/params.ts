@@ -0,0 +1,48 @@
+/**
+ * Query parameter parsing shared by the document routes.
+ */
+
+import type { Context } from 'hono';
+import { resolveAsOf, type AsOf, type Document } from '../data/db';
+import { resolveRef } from '../sync/refs';
+
+export const DOCUMENT_TYPES: Document['type'][] = ['agreement', 'policy', 'proposal', 'other'];
+export const DOCUMENT_STATUSES: Document['status'][] = ['draft', 'active', 'superseded', 'retired'];
+
+export const UNKNOWN_REF = { error: 'ref must be main or a branch listed in SYNC_BRANCHES' };
+export const INVALID_AS_OF = { error: 'asOf must be a YYYY-MM-DD date or a synced commit SHA' };
+
+export const INVALID_STATUS = {
+  error: `status must be "any" or a comma-separated list of ${DOCUMENT_STATUSES.join(', ')}`,
+};
+
+/**
+ * Parse `?status=draft,active` or `?status=any`. Returns undefined when the
+ * parameter is absent and null when it names an unknown status.
+ */
+export function parseStatuses(value: string | undefined): Document['status'][] | undefined | null {
+  if (value === undefined) return undefined;
+  if (value === 'any') return DOCUMENT_STATUSES;
+  const statuses = value.split(',').map((s) => s.trim()).filter(Boolean);
+  if (statuses.length === 0) return null;
+  return statuses.every((s) => DOCUMENT_STATUSES.includes(s as Document['status']))
+    ? (statuses as Document['status'][])
+    : null;
+}
+
+/**
+ * Parse `?ref=`. Returns main when the parameter is absent and null when it
+ * names a branch that is not synced.
+ */
+export function parseRef(c: Context<{ Bindings: Env }>): string | null {
+  return resolveRef(c.req.query('ref'), c.env);
+}
+
+/**
+ * Parse `?asOf=` against the ref's sync history (see resolveAsOf). Returns
+ * undefined when the parameter is absent and null when it cannot be resolved.
+ */
+export async function parseAsOf(c: Context<{ Bindings: Env }>, ref: string): Promise<AsOf | undefined | null> {
+  const value = c.req.query('asOf');
+  return value ? resolveAsOf(c.env.GOVERNANCE_DB, value, ref) : undefined;
+}
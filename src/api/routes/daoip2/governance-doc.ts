@@ -4,6 +4,7 @@
  * Per DAOIP-2: governanceURI should point to a flatfile (.md), returning text/markdown.
  */
 import { Hono } from 'hono';
+import { fetchFilesFromGitHub } from '../../../sync/github';
 
 export const governanceDocRoute = new Hono<{ Bindings: Env }>();
 
@@ -18,17 +19,12 @@ governanceDocRoute.get('/', async (c) => {
   }
 
   // Fallback: fetch directly from GitHub
-  const repo = c.env.GOVERNANCE_REPO;
-  const response = await fetch(
-    `https://raw.githubusercontent.com/${repo}/main/governance.md`,
-    { headers: { Authorization: `Bearer ${c.env.GITHUB_TOKEN}`, 'User-Agent': 'superbenefit-governance-server' } },
-  );
-
-  if (!response.ok) {
+  const files = await fetchFilesFromGitHub(['governance.md'], 'main', c.env);
+  const text = files['governance.md'];
+  if (text === undefined) {
     return c.json({ error: 'Governance document not found' }, 404);
   }
 
-  const text = await response.text();
   return new Response(text, {
     headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
   });
@@ -1,23 +1,27 @@
 import { Hono } from 'hono';
 import { fetchMembers, buildMembersPayload } from '../../../data/sources/sprb';
+import { scopedDocumentsResponse } from '../../scope';
 
 export const memberRoutes = new Hono<{ Bindings: Env }>();
 
 memberRoutes.get('/', async (c) => {
   const role = c.req.query('role');
   const group = c.req.query('group');
-  const payload = await buildMembersPayload(c.env);
+  const includeFormer = c.req.query('includeFormer') === 'true';
+  const payload = await buildMembersPayload(c.env, { includeFormer });
   // Apply optional filters
   if (role || group) {
-    const filtered = await fetchMembers(c.env, { role, group });
-    return c.json({ ...payload, members: filtered.map((m) => ({ '@type': 'EthereumAddress', id: m.id, name: m.ensName })) });
+    const filtered = await fetchMembers(c.env, { role, group, includeFormer });
+    return c.json({ ...payload, members: filtered });
   }
   return c.json(payload);
 });
 
 memberRoutes.get('/:address', async (c) => {
-  const { fetchMemberDetail } = await import('../../../data/sources/sprb');
-  const member = await fetchMemberDetail(c.req.param('address'), c.env);
-  if (!member) return c.json({ error: 'Not found' }, 404);
-  return c.json(member);
+  const { fetchMemberProfile } = await import('../../../data/member-profile');
+  const profile = await fetchMemberProfile(c.req.param('address'), c.env);
+  if (!profile) return c.json({ error: 'Not found' }, 404);
+  return c.json(profile);
 });
+
+memberRoutes.get('/:address/documents', (c) => scopedDocumentsResponse(c, 'address', c.req.param('address')));
@@ -1,16 +1,48 @@
 import { Hono } from 'hono';
-import { queryAgreements, queryAgreementDetail } from '../../../data/db';
+import { queryAgreements, queryAgreementDetail, queryDocumentVersions } from '../../../data/db';
+import { documentContentResponse } from '../../content';
+import { INVALID_AS_OF, INVALID_STATUS, UNKNOWN_REF, parseAsOf, parseRef, parseStatuses } from '../../params';
 
 export const agreementRoutes = new Hono<{ Bindings: Env }>();
 
 agreementRoutes.get('/', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
   const domain = c.req.query('domain');
-  const agreements = await queryAgreements(c.env.GOVERNANCE_DB, { domain });
+  const asOf = await parseAsOf(c, ref);
+  if (asOf === null) return c.json(INVALID_AS_OF, 400);
+  const status = parseStatuses(c.req.query('status'));
+  if (status === null) return c.json(INVALID_STATUS, 400);
+  const q = c.req.query('q');
+  const agreements = await queryAgreements(c.env.GOVERNANCE_DB, { domain, status, q, ref, asOf });
+  if (!agreements) return c.json({ error: 'q must contain at least one search term' }, 400);
   return c.json({ agreements });
 });
 
 agreementRoutes.get('/:id', async (c) => {
-  const agreement = await queryAgreementDetail(c.env.GOVERNANCE_DB, c.req.param('id'));
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const asOf = await parseAsOf(c, ref);
+  if (asOf === null) return c.json(INVALID_AS_OF, 400);
+  const agreement = await queryAgreementDetail(c.env.GOVERNANCE_DB, c.req.param('id'), ref, asOf);
   if (!agreement) return c.json({ error: 'Agreement not found' }, 404);
   return c.json(agreement);
 });
+
+agreementRoutes.get('/:id/versions', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const versions = await queryDocumentVersions(c.env.GOVERNANCE_DB, c.req.param('id'), 'agreement', ref);
+  if (!versions) return c.json({ error: 'Agreement not found' }, 404);
+  return c.json({ versions });
+});
+
+agreementRoutes.get('/:id/content', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const asOf = await parseAsOf(c, ref);
+  if (asOf === null) return c.json(INVALID_AS_OF, 400);
+  const agreement = await queryAgreementDetail(c.env.GOVERNANCE_DB, c.req.param('id'), ref, asOf);
+  if (!agreement) return c.json({ error: 'Agreement not found' }, 404);
+  return documentContentResponse(c, agreement);
+});
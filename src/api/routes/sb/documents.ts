@@ -0,0 +1,119 @@
+import { Hono } from 'hono';
+import {
+  queryDocuments,
+  queryDocumentDetail,
+  queryDocumentVersions,
+  queryDocumentGraph,
+  GRAPH_DEPTH_MAX,
+  type Document,
+  type DocumentRelationship,
+  type GraphDirection,
+} from '../../../data/db';
+import { explainAuthority } from '../../../data/authority';
+import { renderDot, renderMermaid } from '../../../data/graph';
+import { documentContentResponse } from '../../content';
+import { DOCUMENT_TYPES, INVALID_AS_OF, INVALID_STATUS, UNKNOWN_REF, parseAsOf, parseRef, parseStatuses } from '../../params';
+
+export const documentRoutes = new Hono<{ Bindings: Env }>();
+
+const DIRECTIONS: GraphDirection[] = ['outgoing', 'incoming', 'both'];
+const RELATIONSHIP_TYPES: DocumentRelationship['relationshipType'][] = [
+  'authorized_by', 'implements', 'supersedes', 'references', 'evaluates', 'fulfills',
+];
+const GRAPH_FORMATS = ['json', 'dot', 'mermaid'];
+
+documentRoutes.get('/', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const type = c.req.query('type') as Document['type'] | undefined;
+  if (type && !DOCUMENT_TYPES.includes(type)) {
+    return c.json({ error: `type must be one of ${DOCUMENT_TYPES.join(', ')}` }, 400);
+  }
+  const status = parseStatuses(c.req.query('status'));
+  if (status === null) return c.json(INVALID_STATUS, 400);
+  const asOf = await parseAsOf(c, ref);
+  if (asOf === null) return c.json(INVALID_AS_OF, 400);
+  const domain = c.req.query('domain');
+  const agreementId = c.req.query('agreementId');
+  const q = c.req.query('q');
+
+  const documents = await queryDocuments(c.env.GOVERNANCE_DB, { type, status, domain, agreementId, q, ref, asOf });
+  if (!documents) return c.json({ error: 'q must contain at least one search term' }, 400);
+  return c.json({ documents });
+});
+
+documentRoutes.get('/:id', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const asOf = await parseAsOf(c, ref);
+  if (asOf === null) return c.json(INVALID_AS_OF, 400);
+  const document = await queryDocumentDetail(c.env.GOVERNANCE_DB, c.req.param('id'), ref, asOf);
+  if (!document) return c.json({ error: 'Document not found' }, 404);
+  return c.json(document);
+});
+
+documentRoutes.get('/:id/versions', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const versions = await queryDocumentVersions(c.env.GOVERNANCE_DB, c.req.param('id'), null, ref);
+  if (!versions) return c.json({ error: 'Document not found' }, 404);
+  return c.json({ versions });
+});
+
+documentRoutes.get('/:id/content', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const asOf = await parseAsOf(c, ref);
+  if (asOf === null) return c.json(INVALID_AS_OF, 400);
+  const document = await queryDocumentDetail(c.env.GOVERNANCE_DB, c.req.param('id'), ref, asOf);
+  if (!document) return c.json({ error: 'Document not found' }, 404);
+  return documentContentResponse(c, document);
+});
+
+documentRoutes.get('/:id/graph', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+
+  const direction = (c.req.query('direction') ?? 'outgoing') as GraphDirection;
+  if (!DIRECTIONS.includes(direction)) {
+    return c.json({ error: `direction must be one of ${DIRECTIONS.join(', ')}` }, 400);
+  }
+  const depth = parseInt(c.req.query('depth') ?? '1', 10);
+  if (Number.isNaN(depth) || depth < 0 || depth > GRAPH_DEPTH_MAX) {
+    return c.json({ error: `depth must be between 0 and ${GRAPH_DEPTH_MAX}` }, 400);
+  }
+  // ?type=authorized_by,implements or ?type=authorized_by&type=implements
+  const types = (c.req.queries('type') ?? []).flatMap((t) => t.split(',')).map((t) => t.trim()).filter(Boolean);
+  const unknownType = types.find((t) => !RELATIONSHIP_TYPES.includes(t as DocumentRelationship['relationshipType']));
+  if (unknownType) {
+    return c.json({ error: `type "${unknownType}" is not one of ${RELATIONSHIP_TYPES.join(', ')}` }, 400);
+  }
+  const format = c.req.query('format') ?? 'json';
+  if (!GRAPH_FORMATS.includes(format)) {
+    return c.json({ error: `format must be one of ${GRAPH_FORMATS.join(', ')}` }, 400);
+  }
+
+  const graph = await queryDocumentGraph(c.env.GOVERNANCE_DB, c.req.param('id'), {
+    depth,
+    direction,
+    types: types as DocumentRelationship['relationshipType'][],
+    ref,
+  });
+  if (!graph) return c.json({ error: 'Document not found' }, 404);
+
+  if (format === 'dot') {
+    return c.body(renderDot(graph), 200, { 'Content-Type': 'text/vnd.graphviz; charset=utf-8' });
+  }
+  if (format === 'mermaid') {
+    return c.body(renderMermaid(graph), 200, { 'Content-Type': 'text/plain; charset=utf-8' });
+  }
+  return c.json(graph);
+});
+
+documentRoutes.get('/:id/authority', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const authority = await explainAuthority(c.env, c.req.param('id'), ref);
+  if (!authority) return c.json({ error: 'Document not found' }, 404);
+  return c.json(authority);
+});
@@ -0,0 +1,51 @@
+import { Hono } from 'hono';
+import { queryDomains, queryDomainTree, queryDomainDetail, type Domain } from '../../../data/db';
+import { queryDecisionAuthority } from '../../../data/deciders';
+import { fetchRoleDetail } from '../../../data/sources/hats';
+import { INVALID_STATUS, UNKNOWN_REF, parseRef, parseStatuses } from '../../params';
+
+export const domainRoutes = new Hono<{ Bindings: Env }>();
+
+const DOMAIN_TYPES: Domain['domainType'][] = ['entity', 'trust_zone', 'governance_function'];
+
+domainRoutes.get('/', async (c) => {
+  const type = c.req.query('type') as Domain['domainType'] | undefined;
+  if (type && !DOMAIN_TYPES.includes(type)) {
+    return c.json({ error: `type must be one of ${DOMAIN_TYPES.join(', ')}` }, 400);
+  }
+  const view = c.req.query('view') ?? 'flat';
+  if (view !== 'flat' && view !== 'tree') return c.json({ error: "view must be 'flat' or 'tree'" }, 400);
+
+  const includeRemoved = c.req.query('includeRemoved') === 'true';
+
+  const domains = view === 'tree'
+    ? await queryDomainTree(c.env.GOVERNANCE_DB, { type, includeRemoved })
+    : await queryDomains(c.env.GOVERNANCE_DB, { type, includeRemoved });
+  return c.json({ domains });
+});
+
+domainRoutes.get('/:slug', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const status = parseStatuses(c.req.query('status'));
+  if (status === null) return c.json(INVALID_STATUS, 400);
+  const domain = await queryDomainDetail(c.env.GOVERNANCE_DB, c.req.param('slug'), { ref, status });
+  if (!domain) return c.json({ error: 'Domain not found' }, 404);
+
+  // The hat is supplementary — a subgraph outage must not hide the domain
+  const hat = domain.hatId
+    ? await fetchRoleDetail(domain.hatId, c.env).catch((err) => {
+      console.error(`Could not resolve hat ${domain.hatId} for domain ${domain.slug}:`, err);
+      return null;
+    })
+    : null;
+  return c.json({ ...domain, hat });
+});
+
+domainRoutes.get('/:slug/authority', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const authority = await queryDecisionAuthority(c.env, c.req.param('slug'), ref);
+  if (!authority) return c.json({ error: 'Domain not found' }, 404);
+  return c.json(authority);
+});
@@ -1,5 +1,6 @@
 import { Hono } from 'hono';
 import { fetchGroups } from '../../../data/sources/groups';
+import { scopedDocumentsResponse } from '../../scope';
 
 export const groupRoutes = new Hono<{ Bindings: Env }>();
 
@@ -13,3 +14,5 @@ groupRoutes.get('/:id', async (c) => {
   if (!groups.length) return c.json({ error: 'Group not found' }, 404);
   return c.json(groups[0]);
 });
+
+groupRoutes.get('/:id/documents', (c) => scopedDocumentsResponse(c, 'group', c.req.param('id')));
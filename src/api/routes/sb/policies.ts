@@ -1,17 +1,49 @@
 import { Hono } from 'hono';
-import { queryPolicies, queryPolicyDetail } from '../../../data/db';
+import { queryPolicies, queryPolicyDetail, queryDocumentVersions } from '../../../data/db';
+import { documentContentResponse } from '../../content';
+import { INVALID_AS_OF, INVALID_STATUS, UNKNOWN_REF, parseAsOf, parseRef, parseStatuses } from '../../params';
 
 export const policyRoutes = new Hono<{ Bindings: Env }>();
 
 policyRoutes.get('/', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
   const domain = c.req.query('domain');
   const agreementId = c.req.query('agreementId');
-  const policies = await queryPolicies(c.env.GOVERNANCE_DB, { domain, agreementId });
+  const asOf = await parseAsOf(c, ref);
+  if (asOf === null) return c.json(INVALID_AS_OF, 400);
+  const status = parseStatuses(c.req.query('status'));
+  if (status === null) return c.json(INVALID_STATUS, 400);
+  const q = c.req.query('q');
+  const policies = await queryPolicies(c.env.GOVERNANCE_DB, { domain, agreementId, status, q, ref, asOf });
+  if (!policies) return c.json({ error: 'q must contain at least one search term' }, 400);
   return c.json({ policies });
 });
 
 policyRoutes.get('/:id', async (c) => {
-  const policy = await queryPolicyDetail(c.env.GOVERNANCE_DB, c.req.param('id'));
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const asOf = await parseAsOf(c, ref);
+  if (asOf === null) return c.json(INVALID_AS_OF, 400);
+  const policy = await queryPolicyDetail(c.env.GOVERNANCE_DB, c.req.param('id'), ref, asOf);
   if (!policy) return c.json({ error: 'Policy not found' }, 404);
   return c.json(policy);
 });
+
+policyRoutes.get('/:id/versions', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const versions = await queryDocumentVersions(c.env.GOVERNANCE_DB, c.req.param('id'), 'policy', ref);
+  if (!versions) return c.json({ error: 'Policy not found' }, 404);
+  return c.json({ versions });
+});
+
+policyRoutes.get('/:id/content', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const asOf = await parseAsOf(c, ref);
+  if (asOf === null) return c.json(INVALID_AS_OF, 400);
+  const policy = await queryPolicyDetail(c.env.GOVERNANCE_DB, c.req.param('id'), ref, asOf);
+  if (!policy) return c.json({ error: 'Policy not found' }, 404);
+  return documentContentResponse(c, policy);
+});
@@ -1,5 +1,6 @@
 import { Hono } from 'hono';
 import { fetchRoles, fetchRoleDetail } from '../../../data/sources/hats';
+import { scopedDocumentsResponse } from '../../scope';
 
 export const roleRoutes = new Hono<{ Bindings: Env }>();
 
@@ -13,3 +14,5 @@ roleRoutes.get('/:hatId', async (c) => {
   if (!role) return c.json({ error: 'Hat not found' }, 404);
   return c.json(role);
 });
+
+roleRoutes.get('/:hatId/documents', (c) => scopedDocumentsResponse(c, 'hat', c.req.param('hatId')));
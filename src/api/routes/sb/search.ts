@@ -0,0 +1,25 @@
+import { Hono } from 'hono';
+import { searchDocuments, SEARCH_LIMIT_MAX, type Document } from '../../../data/db';
+import { DOCUMENT_STATUSES, DOCUMENT_TYPES, UNKNOWN_REF, parseRef } from '../../params';
+
+export const searchRoutes = new Hono<{ Bindings: Env }>();
+
+searchRoutes.get('/', async (c) => {
+  const q = c.req.query('q') ?? '';
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const type = c.req.query('type') as Document['type'] | undefined;
+  if (type && !DOCUMENT_TYPES.includes(type)) {
+    return c.json({ error: `type must be one of ${DOCUMENT_TYPES.join(', ')}` }, 400);
+  }
+  const status = c.req.query('status') as Document['status'] | undefined;
+  if (status && !DOCUMENT_STATUSES.includes(status)) {
+    return c.json({ error: `status must be one of ${DOCUMENT_STATUSES.join(', ')}` }, 400);
+  }
+  const domain = c.req.query('domain');
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') ?? '20', 10) || 20, 1), SEARCH_LIMIT_MAX);
+
+  const results = await searchDocuments(c.env.GOVERNANCE_DB, { q, type, status, domain, ref, limit });
+  if (!results) return c.json({ error: 'q must contain at least one search term' }, 400);
+  return c.json({ results });
+});
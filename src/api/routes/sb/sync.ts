@@ -0,0 +1,55 @@
+import { Hono } from 'hono';
+import {
+  queryUnresolvedRelationships,
+  querySyncDiagnostics,
+  querySyncRuns,
+  type SyncRun,
+} from '../../../data/db';
+import { getValidationReport } from '../../../sync/validate';
+import { UNKNOWN_REF, parseRef } from '../../params';
+
+export const syncRoutes = new Hono<{ Bindings: Env }>();
+
+const RUN_STATUSES: SyncRun['status'][] = ['running', 'succeeded', 'failed'];
+const MAX_RUNS = 100;
+
+syncRoutes.get('/runs', async (c) => {
+  const status = c.req.query('status') as SyncRun['status'] | undefined;
+  if (status && !RUN_STATUSES.includes(status)) {
+    return c.json({ error: `status must be one of ${RUN_STATUSES.join(', ')}` }, 400);
+  }
+  const commitSha = c.req.query('commitSha');
+  // Unlike document routes, runs span every ref unless one is named
+  const ref = c.req.query('ref');
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') ?? '20', 10) || 20, 1), MAX_RUNS);
+  const runs = await querySyncRuns(c.env.GOVERNANCE_DB, { status, commitSha, ref, limit });
+  return c.json({ runs });
+});
+
+syncRoutes.get('/unresolved-relationships', async (c) => {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const relationships = await queryUnresolvedRelationships(c.env.GOVERNANCE_DB, ref);
+  return c.json({ relationships });
+});
+
+syncRoutes.get('/runs/:sha/diagnostics', async (c) => {
+  const commitSha = c.req.param('sha');
+  const severity = c.req.query('severity') as 'error' | 'warning' | undefined;
+  if (severity && severity !== 'error' && severity !== 'warning') {
+    return c.json({ error: "severity must be 'error' or 'warning'" }, 400);
+  }
+  const diagnostics = await querySyncDiagnostics(c.env.GOVERNANCE_DB, commitSha, { severity });
+  return c.json({
+    commitSha,
+    errors: diagnostics.filter((d) => d.severity === 'error').length,
+    warnings: diagnostics.filter((d) => d.severity === 'warning').length,
+    diagnostics,
+  });
+});
+
+syncRoutes.get('/validations/:sha', async (c) => {
+  const report = await getValidationReport(c.env, c.req.param('sha'));
+  if (!report) return c.json({ error: 'No validation report for this commit' }, 404);
+  return c.json(report);
+});
@@ -0,0 +1,32 @@
+/**
+ * Shared handler for the /:id/documents routes on roles, groups and members.
+ *
+ * Lists the documents whose scope names the entity, each with its
+ * scopeRelation. Query parameters:
+ *   ref · status (default active; see parseStatuses) · relation (governs, governed_by, party, signatory)
+ */
+
+import type { Context } from 'hono';
+import type { DocumentScope } from '../data/db';
+import { fetchScopedDocuments } from '../data/scope';
+import { INVALID_STATUS, UNKNOWN_REF, parseRef, parseStatuses } from './params';
+
+const SCOPE_RELATIONS: DocumentScope['scopeRelation'][] = ['governs', 'governed_by', 'party', 'signatory'];
+
+export async function scopedDocumentsResponse(
+  c: Context<{ Bindings: Env }>,
+  entityType: DocumentScope['entityType'],
+  entityId: string,
+): Promise<Response> {
+  const ref = parseRef(c);
+  if (!ref) return c.json(UNKNOWN_REF, 400);
+  const status = parseStatuses(c.req.query('status'));
+  if (status === null) return c.json(INVALID_STATUS, 400);
+  const relation = c.req.query('relation') as DocumentScope['scopeRelation'] | undefined;
+  if (relation && !SCOPE_RELATIONS.includes(relation)) {
+    return c.json({ error: `relation must be one of ${SCOPE_RELATIONS.join(', ')}` }, 400);
+  }
+
+  const documents = await fetchScopedDocuments(c.env, entityType, entityId, { relation, status, ref });
+  return c.json({ entityType, entityId, documents });
+}
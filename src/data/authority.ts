@@ -0,0 +1,120 @@
+/**
+ * Authority chains: under what authority does a document exist?
+ *
+ * Starting from one document, follow the edges it declares towards its source
+ * of authority — authorized_by, implements and supersedes — until documents
+ * with no further such edges are reached. Those are the roots; a chain that is
+ * properly grounded ends at agreements.
+ *
+ * Each step carries the Snapshot proposal named in the document's enacted_by,
+ * with its outcome and voting window, so the answer shows both the documentary
+ * and the voting basis.
+ */
+
+import {
+  queryDocumentGraph,
+  GRAPH_DEPTH_MAX,
+  type Document,
+  type DocumentGraphNode,
+  type DocumentRelationship,
+} from './db';
+import { fetchProposalDetail, type Daoip2Proposal } from './sources/snapshot';
+
+const AUTHORITY_TYPES: DocumentRelationship['relationshipType'][] = ['authorized_by', 'implements', 'supersedes'];
+
+export interface Enactment {
+  proposalId: string; // as written in enacted_by
+  proposal: Daoip2Proposal | null; // null when Snapshot does not know the proposal or could not be reached
+  outcome: string | null; // leading choice of a closed proposal
+}
+
+export interface AuthorityStep {
+  document: Document;
+  via: DocumentRelationship['relationshipType'] | null; // edge from the previous step; null for the document asked about
+  enactment: Enactment | null;
+  cycle?: true; // the document already appears earlier on this path, so the walk stops here
+  authorities: AuthorityStep[];
+}
+
+export interface AuthorityChain {
+  chain: AuthorityStep;
+  roots: Document[]; // where the chain ends: documents with no authority edges of their own
+  grounded: boolean; // every root is an agreement (false when the chain only loops)
+  truncated: boolean; // a root sits at GRAPH_DEPTH_MAX hops, so the chain may continue past it
+}
+
+/**
+ * Returns null if no document matches.
+ */
+export async function explainAuthority(env: Env, idOrSlug: string, ref?: string): Promise<AuthorityChain | null> {
+  const graph = await queryDocumentGraph(env.GOVERNANCE_DB, idOrSlug, {
+    depth: GRAPH_DEPTH_MAX,
+    direction: 'outgoing',
+    types: AUTHORITY_TYPES,
+    ref,
+  });
+  if (!graph) return null;
+
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+  const enactments = await resolveEnactments(graph.nodes, env);
+
+  const build = (node: DocumentGraphNode, via: AuthorityStep['via'], path: Set<string>): AuthorityStep => {
+    const step: AuthorityStep = {
+      document: withoutDepth(node),
+      via,
+      enactment: node.enactedBy ? enactments.get(node.enactedBy) ?? null : null,
+      authorities: [],
+    };
+    if (path.has(node.id)) return { ...step, cycle: true };
+
+    const nextPath = new Set(path).add(node.id);
+    for (const edge of graph.edges.filter((e) => e.fromId === node.id)) {
+      const next = nodes.get(edge.toId);
+      if (next) step.authorities.push(build(next, edge.relationshipType, nextPath));
+    }
+    return step;
+  };
+
+  const roots = graph.nodes.filter((node) => !graph.edges.some((e) => e.fromId === node.id));
+  return {
+    chain: build(nodes.get(graph.rootId)!, null, new Set()),
+    roots: roots.map(withoutDepth),
+    grounded: roots.length > 0 && roots.every((node) => node.type === 'agreement'),
+    truncated: roots.some((node) => node.depth === GRAPH_DEPTH_MAX),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+/** Look up each distinct enacted_by proposal once. */
+async function resolveEnactments(nodes: DocumentGraphNode[], env: Env): Promise<Map<string, Enactment>> {
+  const proposalIds = [...new Set(nodes.map((node) => node.enactedBy).filter((id): id is string => Boolean(id)))];
+  const enactments = await Promise.all(proposalIds.map(async (proposalId): Promise<Enactment> => {
+    // A Snapshot outage leaves the documentary chain intact, just without vote detail
+    const proposal = await fetchProposalDetail(snapshotProposalId(proposalId), env).catch((err) => {
+      console.error(`Could not resolve enacting proposal ${proposalId}:`, err);
+      return null;
+    });
+    return { proposalId, proposal, outcome: proposal ? outcomeOf(proposal) : null };
+  }));
+  return new Map(enactments.map((enactment) => [enactment.proposalId, enactment]));
+}
+
+/**
+ * enacted_by normally holds the bare Snapshot ID, but a DAOIP-2 proposal ID
+ * (daoip-2:<space>:proposal:<id>) or a snapshot.org link is accepted too.
+ */
+function snapshotProposalId(enactedBy: string): string {
+  return enactedBy.match(/proposal[:/]([^:/?#]+)\/?$/)?.[1] ?? enactedBy;
+}
+
+function withoutDepth({ depth: _depth, ...document }: DocumentGraphNode): Document {
+  return document;
+}
+
+function outcomeOf(proposal: Daoip2Proposal): string | null {
+  if (proposal.status !== 'closed' || proposal.scores.length === 0 || proposal.totalScore === 0) return null;
+  return proposal.scores.reduce((best, s) => (s.score > best.score ? s : best)).choice;
+}
@@ -0,0 +1,233 @@
+/**
+ * Rendering for synced governance markdown.
+ *
+ * Documents are stored in R2 exactly as committed, frontmatter included. These
+ * helpers strip the frontmatter, split the body into sections by heading anchor,
+ * and render it as HTML or plain text for the content endpoints.
+ *
+ * Anchors follow GitHub's heading IDs (lowercased, punctuation dropped, spaces
+ * to hyphens, "-1", "-2"... for repeats), so links copied from the governance
+ * repo resolve here too.
+ *
+ * Markdown is authored by repo contributors, but the HTML is served from this
+ * origin: raw HTML in the source is escaped rather than passed through, and
+ * link and image URLs are limited to http(s), mailto and relative targets.
+ */
+
+import { Marked, Renderer, type Token, type Tokens } from 'marked';
+
+export interface DocumentSection {
+  anchor: string;
+  title: string;
+  depth: number; // 1–6, as in <h1>–<h6>
+}
+
+/**
+ * Remove the leading YAML frontmatter block, if present.
+ */
+export function stripFrontmatter(markdown: string): string {
+  return markdown.replace(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/, '').replace(/^\s*\n/, '');
+}
+
+/**
+ * Headings in document order, with their anchors.
+ */
+export function listSections(markdown: string): DocumentSection[] {
+  return headingsOf(markdownLexer.lexer(markdown)).map(({ anchor, token }) => ({
+    anchor,
+    title: headingText(token),
+    depth: token.depth,
+  }));
+}
+
+/**
+ * The markdown of one section: its heading and everything up to the next
+ * heading of the same or a higher level. Null when no heading has the anchor.
+ */
+export function extractSection(markdown: string, anchor: string): string | null {
+  const tokens = markdownLexer.lexer(markdown);
+  const headings = headingsOf(tokens);
+  const start = headings.find((h) => h.anchor === anchor.toLowerCase());
+  if (!start) return null;
+
+  const end = headings.find((h) => h.index > start.index && h.token.depth <= start.token.depth);
+  return tokens
+    .slice(start.index, end?.index ?? tokens.length)
+    .map((token) => token.raw)
+    .join('')
+    .trimEnd() + '\n';
+}
+
+/**
+ * Sanitized HTML. Headings carry their anchor as `id`.
+ */
+export function renderHtml(markdown: string): string {
+  const tokens = markdownLexer.lexer(markdown);
+  const anchors = new Map(headingsOf(tokens).map(({ anchor, token }) => [token, anchor]));
+  const renderer = new Renderer();
+
+  renderer.heading = function (token) {
+    const id = anchors.get(token);
+    const inner = this.parser.parseInline(token.tokens);
+    return `<h${token.depth}${id ? ` id="${id}"` : ''}>${inner}</h${token.depth}>\n`;
+  };
+  renderer.html = ({ text }) => escapeHtml(text);
+  renderer.link = function ({ href, title, tokens }) {
+    const inner = this.parser.parseInline(tokens);
+    if (!isSafeUrl(href)) return inner;
+    return `<a href="${escapeHtml(href)}"${title ? ` title="${escapeHtml(title)}"` : ''}>${inner}</a>`;
+  };
+  renderer.image = ({ href, title, text }) => {
+    if (!isSafeUrl(href)) return escapeHtml(text);
+    return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${title ? ` title="${escapeHtml(title)}"` : ''}>`;
+  };
+
+  return new Marked({ renderer, async: false }).parser(tokens);
+}
+
+/**
+ * Plain text: markup removed, one blank line between blocks, list items on
+ * their own lines and table cells separated by tabs.
+ */
+export function renderPlainText(markdown: string): string {
+  return blocksToText(markdownLexer.lexer(markdown)).replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+/** Escape text for an HTML element or double-quoted attribute. */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+const markdownLexer = new Marked({ async: false });
+
+interface Heading {
+  index: number; // position among the top-level tokens
+  anchor: string;
+  token: Tokens.Heading;
+}
+
+/**
+ * Top-level headings only — a "#" inside a list item or blockquote does not
+ * start a section.
+ */
+function headingsOf(tokens: Token[]): Heading[] {
+  const seen = new Map<string, number>();
+  const headings: Heading[] = [];
+  tokens.forEach((token, index) => {
+    if (token.type !== 'heading') return;
+    const heading = token as Tokens.Heading;
+    const base = slugifyHeading(headingText(heading));
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    headings.push({ index, anchor: count === 0 ? base : `${base}-${count}`, token: heading });
+  });
+  return headings;
+}
+
+function headingText(token: Tokens.Heading): string {
+  return inlineToText(token.tokens).trim();
+}
+
+function slugifyHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+function blocksToText(tokens: Token[]): string {
+  return tokens.map((token) => {
+    const t = token as Tokens.Generic;
+    switch (token.type) {
+      case 'heading':
+      case 'paragraph':
+        return inlineToText(t.tokens ?? []) + '\n\n';
+      case 'text':
+        return (t.tokens ? inlineToText(t.tokens) : t.text) + '\n';
+      case 'code':
+        return t.text + '\n\n';
+      case 'blockquote':
+        return blocksToText(t.tokens ?? []) + '\n';
+      case 'list':
+        return (token as Tokens.List).items.map((item) => blocksToText(item.tokens).trim()).join('\n') + '\n\n';
+      case 'table': {
+        const table = token as Tokens.Table;
+        const rows = [table.header, ...table.rows];
+        return rows.map((row) => row.map((cell) => inlineToText(cell.tokens)).join('\t')).join('\n') + '\n\n';
+      }
+      default:
+        return ''; // html, hr, space, def
+    }
+  }).join('');
+}
+
+function inlineToText(tokens: Token[]): string {
+  return tokens.map((token) => {
+    const t = token as Tokens.Generic;
+    switch (token.type) {
+      case 'br':
+        return '\n';
+      case 'image':
+        return t.text;
+      case 'html':
+        return '';
+      case 'codespan':
+      case 'escape':
+        return t.text;
+      default:
+        return t.tokens ? inlineToText(t.tokens) : decodeEntities(t.text ?? '');
+    }
+  }).join('');
+}
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+// Relative targets resolve against this and come out https:
+const RELATIVE_BASE = 'https://relative.invalid/';
+
+/**
+ * Whether a link or image target is http(s), mailto or relative. Targets are
+ * parsed the way a browser parses them, so tabs, newlines and control
+ * characters inside a scheme (java\tscript:) cannot hide it; character
+ * references are decoded first in case a renderer ever passes them through.
+ */
+function isSafeUrl(href: string): boolean {
+  return [href, decodeCharacterReferences(href)].every((candidate) => {
+    try {
+      return SAFE_PROTOCOLS.includes(new URL(candidate, RELATIVE_BASE).protocol);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/** Numeric references plus the named ones that can spell out a scheme. */
+function decodeCharacterReferences(text: string): string {
+  return decodeEntities(text
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => codePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec: string) => codePoint(parseInt(dec, 10)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&tab;/gi, '\t')
+    .replace(/&newline;/gi, '\n'));
+}
+
+function codePoint(n: number): string {
+  return n <= 0x10ffff ? String.fromCodePoint(n) : '\ufffd';
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
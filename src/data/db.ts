@@ -3,17 +3,36 @@
  *
  * All queries are read-only. Write operations go through the sync workflow.
  * The schema is defined in migrations/0001_initial.sql.
+ *
+ * Document queries read one ref at a time — main unless a preview branch is
+ * named (see sync/refs.ts).
  */
 
+import { MAIN_REF } from '../sync/refs';
+import { escapeHtml } from './content';
+
+// Document columns aliased to the camelCase Document shape returned by the API
+const DOCUMENT_COLUMNS = `
+  d.id, d.ref, d.slug, d.type, d.title, d.status,
+  d.effective_from AS effectiveFrom, d.effective_to AS effectiveTo,
+  d.content_hash AS contentHash, d.enacted_by AS enactedBy, d.r2_key AS r2Key
+`;
+
+const DOMAIN_COLUMNS = `
+  dom.id, dom.slug, dom.name, dom.domain_type AS domainType,
+  dom.parent_id AS parentId, dom.hat_id AS hatId, dom.description, dom.removed_at AS removedAt
+`;
+
 export interface Document {
   id: string;
+  ref: string; // 'main', or the preview branch the document was synced from
   slug: string;
   type: 'agreement' | 'policy' | 'proposal' | 'other';
   title: string;
   status: 'draft' | 'active' | 'superseded' | 'retired';
   effectiveFrom?: string;
   effectiveTo?: string;
-  contentHash?: string;
+  contentHash?: string; // SHA-256 of the enacted markdown, as synced to R2
   enactedBy?: string; // Snapshot proposal ID
   r2Key?: string;
 }
@@ -21,6 +40,9 @@ export interface Document {
 export interface DocumentWithDomains extends Document {
   domains: Domain[];
   relationships: DocumentRelationship[];
+  scope: DocumentScope[];
+  redirectedFrom?: string; // Former slug the lookup matched, when the document has since been renamed
+  snapshotCommitSha?: string; // For asOf=<commit>: the commit whose snapshot this is
 }
 
 export interface Domain {
@@ -30,6 +52,8 @@ export interface Domain {
   domainType: 'entity' | 'trust_zone' | 'governance_function';
   parentId?: string;
   hatId?: string;
+  description?: string;
+  removedAt?: string; // Set when domains.yml stopped listing the domain
 }
 
 export interface DocumentRelationship {
@@ -38,127 +62,1011 @@ export interface DocumentRelationship {
   relationshipType: 'authorized_by' | 'implements' | 'supersedes' | 'references' | 'evaluates' | 'fulfills';
 }
 
+export interface DocumentScope {
+  entityType: 'hat' | 'address' | 'group';
+  entityId: string; // hat ID, lowercased address, or group slug
+  scopeRelation: 'governs' | 'governed_by' | 'party' | 'signatory';
+}
+
+// ---------------------------------------------------------------------------
+// Documents (any type) — agreements and policies below are views over these
+// ---------------------------------------------------------------------------
+
+export interface DocumentQuery {
+  type?: Document['type'];
+  /** One status or several. Omit for documents in any status. */
+  status?: Document['status'] | Document['status'][];
+  domain?: string;
+  /** Only documents with an authorized_by edge to this agreement (ID or slug). */
+  agreementId?: string;
+  /** Full-text search terms (see searchDocuments); results are then ranked by relevance. */
+  q?: string;
+  ref?: string;
+  asOf?: AsOf;
+}
+
+/**
+ * Documents of any type and status. Returns null when `q` is given but holds
+ * no searchable terms.
+ */
+export async function queryDocuments(db: D1Database, params: DocumentQuery): Promise<Document[] | null> {
+  return listDocuments(db, params, 'd.type, d.title ASC');
+}
+
+export async function queryDocumentDetail(
+  db: D1Database,
+  idOrSlug: string,
+  ref = MAIN_REF,
+  asOf?: AsOf,
+): Promise<DocumentWithDomains | null> {
+  return documentDetail(db, idOrSlug, null, ref, asOf);
+}
+
 // ---------------------------------------------------------------------------
 // Agreements
 // ---------------------------------------------------------------------------
 
+/** Agreements, newest first. Active ones unless `status` says otherwise (see defaultStatus). */
 export async function queryAgreements(
   db: D1Database,
-  params: { domain?: string },
-): Promise<Document[]> {
-  let query = `
-    SELECT d.* FROM documents d
-    WHERE d.type = 'agreement' AND d.status = 'active'
-  `;
+  params: Omit<DocumentQuery, 'type' | 'agreementId'>,
+): Promise<Document[] | null> {
+  const status = params.status ?? defaultStatus(params.asOf);
+  return listDocuments(db, { ...params, type: 'agreement', status }, 'd.effective_from DESC');
+}
+
+export async function queryAgreementDetail(
+  db: D1Database,
+  idOrSlug: string,
+  ref = MAIN_REF,
+  asOf?: AsOf,
+): Promise<DocumentWithDomains | null> {
+  return documentDetail(db, idOrSlug, 'agreement', ref, asOf);
+}
+
+// ---------------------------------------------------------------------------
+// Policies
+// ---------------------------------------------------------------------------
+
+/** Policies by title. Active ones unless `status` says otherwise (see defaultStatus). */
+export async function queryPolicies(
+  db: D1Database,
+  params: Omit<DocumentQuery, 'type'>,
+): Promise<Document[] | null> {
+  const status = params.status ?? defaultStatus(params.asOf);
+  return listDocuments(db, { ...params, type: 'policy', status }, 'd.title ASC');
+}
+
+export async function queryPolicyDetail(
+  db: D1Database,
+  idOrSlug: string,
+  ref = MAIN_REF,
+  asOf?: AsOf,
+): Promise<DocumentWithDomains | null> {
+  return documentDetail(db, idOrSlug, 'policy', ref, asOf);
+}
+
+// ---------------------------------------------------------------------------
+// Domains
+// ---------------------------------------------------------------------------
+
+export interface DomainNode extends Domain {
+  children: DomainNode[];
+}
+
+export interface DomainDetail extends Domain {
+  parent: Domain | null;
+  children: Domain[];
+  documents: Document[]; // documents tagged with this domain, of every status unless filtered by `status`
+}
+
+/**
+ * Domains ordered by axis and name. Domains removed from domains.yml are left
+ * out unless `includeRemoved` is set.
+ */
+export async function queryDomains(
+  db: D1Database,
+  params?: { type?: Domain['domainType']; includeRemoved?: boolean },
+): Promise<Domain[]> {
+  let query = `SELECT ${DOMAIN_COLUMNS} FROM domains dom WHERE 1 = 1`;
   const bindings: unknown[] = [];
+  if (params?.type) {
+    query += ' AND dom.domain_type = ?';
+    bindings.push(params.type);
+  }
+  if (!params?.includeRemoved) {
+    query += ' AND dom.removed_at IS NULL';
+  }
+  query += ' ORDER BY dom.domain_type, dom.name';
 
-  if (params.domain) {
-    query = `
-      SELECT d.* FROM documents d
+  const result = await db.prepare(query).bind(...bindings).all<Domain>();
+  return result.results ?? [];
+}
+
+/**
+ * Domains nested under their parents. A domain whose parent is filtered out
+ * (another type, or removed) becomes a root.
+ */
+export async function queryDomainTree(
+  db: D1Database,
+  params?: { type?: Domain['domainType']; includeRemoved?: boolean },
+): Promise<DomainNode[]> {
+  const nodes = new Map<string, DomainNode>();
+  for (const domain of await queryDomains(db, params)) {
+    nodes.set(domain.id, { ...domain, children: [] });
+  }
+
+  const roots: DomainNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    // A parent_id cycle would otherwise leave every member unreachable
+    if (parent && !formsCycle(node, parent.id, nodes)) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+/**
+ * Domains a free-text topic is about, best match first. Domains whose name,
+ * slug or description contains a topic word come first, ranked by how many
+ * words they contain. Only when none do, domains are ranked by how many active
+ * documents tagged with them match any of the words in the search index.
+ * Removed domains are left out.
+ */
+export async function searchDomains(
+  db: D1Database,
+  topic: string,
+  params?: { ref?: string; limit?: number },
+): Promise<Domain[]> {
+  const limit = params?.limit ?? 5;
+  // Words too short to carry meaning ("of", "to") would match nearly every description
+  const words = [...new Set(topic.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((w) => w.length >= 3))];
+  if (words.length === 0) return [];
+
+  const haystack = `lower(dom.name || ' ' || dom.slug || ' ' || COALESCE(dom.description, ''))`;
+  const named = await db
+    .prepare(`
+      SELECT ${DOMAIN_COLUMNS} FROM (
+        SELECT dom.*, ${words.map(() => `(instr(${haystack}, ?) > 0)`).join(' + ')} AS score
+        FROM domains dom WHERE dom.removed_at IS NULL
+      ) dom
+      WHERE dom.score > 0
+      ORDER BY dom.score DESC, dom.name
+      LIMIT ?
+    `)
+    .bind(...words, limit)
+    .all<Domain>();
+  if (named.results?.length) return named.results;
+
+  const match = toFtsQuery(words.join(' OR '));
+  if (!match) return [];
+  const tagged = await db
+    .prepare(`
+      SELECT ${DOMAIN_COLUMNS} FROM document_search
+      INNER JOIN documents d ON d.id = document_search.document_id
       INNER JOIN document_domains dd ON dd.document_id = d.id
       INNER JOIN domains dom ON dom.id = dd.domain_id
-      WHERE d.type = 'agreement' AND d.status = 'active'
-        AND dom.slug = ?
-    `;
-    bindings.push(params.domain);
+      WHERE document_search MATCH ? AND d.ref = ? AND d.status = 'active' AND dom.removed_at IS NULL
+      GROUP BY dom.id
+      ORDER BY COUNT(*) DESC, dom.name
+      LIMIT ?
+    `)
+    .bind(match, params?.ref ?? MAIN_REF, limit)
+    .all<Domain>();
+  return tagged.results ?? [];
+}
+
+/**
+ * A domain with its parent, children and tagged documents — every status
+ * unless `status` narrows it.
+ */
+export async function queryDomainDetail(
+  db: D1Database,
+  idOrSlug: string,
+  params: { ref?: string; status?: Document['status'][] } = {},
+): Promise<DomainDetail | null> {
+  const domain = await db
+    .prepare(`SELECT ${DOMAIN_COLUMNS} FROM domains dom WHERE dom.id = ? OR dom.slug = ?`)
+    .bind(idOrSlug, idOrSlug)
+    .first<Domain>();
+  if (!domain) return null;
+
+  let documentsQuery = `
+    SELECT ${DOCUMENT_COLUMNS} FROM documents d
+    INNER JOIN document_domains dd ON dd.document_id = d.id
+    WHERE dd.domain_id = ? AND d.ref = ?
+  `;
+  const bindings: unknown[] = [domain.id, params.ref ?? MAIN_REF];
+  if (params.status?.length) {
+    documentsQuery += ` AND d.status IN (${params.status.map(() => '?').join(', ')})`;
+    bindings.push(...params.status);
   }
+  documentsQuery += ' ORDER BY d.type, d.title';
+
+  const [parent, children, documents] = await Promise.all([
+    domain.parentId
+      ? db.prepare(`SELECT ${DOMAIN_COLUMNS} FROM domains dom WHERE dom.id = ?`).bind(domain.parentId).first<Domain>()
+      : null,
+    db
+      .prepare(`SELECT ${DOMAIN_COLUMNS} FROM domains dom WHERE dom.parent_id = ? ORDER BY dom.name`)
+      .bind(domain.id)
+      .all<Domain>(),
+    db.prepare(documentsQuery).bind(...bindings).all<Document>(),
+  ]);
 
-  query += ' ORDER BY d.effective_from DESC';
+  return { ...domain, parent: parent ?? null, children: children.results ?? [], documents: documents.results ?? [] };
+}
 
-  const result = await db.prepare(query).bind(...bindings).all<Document>();
+// ---------------------------------------------------------------------------
+// Entity scope (what governs a hat, address or group)
+// ---------------------------------------------------------------------------
+
+export interface ScopedDocument extends Document {
+  scopeRelation: DocumentScope['scopeRelation'];
+}
+
+/**
+ * Documents whose frontmatter scope names the entity, one row per relation
+ * (a document can both govern a hat and list it as a party). Several IDs can
+ * be given for one entity, e.g. a hat's hex and pretty IDs.
+ * Active documents unless `status` says otherwise.
+ */
+export async function queryScopedDocuments(
+  db: D1Database,
+  entityType: DocumentScope['entityType'],
+  entityIds: string[],
+  params?: {
+    relation?: DocumentScope['scopeRelation'];
+    status?: Document['status'] | Document['status'][];
+    ref?: string;
+  },
+): Promise<ScopedDocument[]> {
+  // Scope entity IDs are stored as written in frontmatter, except addresses (lowercased)
+  const ids = [...new Set(entityType === 'address' ? entityIds.map((id) => id.toLowerCase()) : entityIds)];
+  const status = params?.status ?? 'active';
+  const statuses = Array.isArray(status) ? status : [status];
+
+  let query = `
+    SELECT DISTINCT ${DOCUMENT_COLUMNS}, ds.scope_relation AS scopeRelation
+    FROM document_scope ds
+    INNER JOIN documents d ON d.id = ds.document_id
+    WHERE ds.entity_type = ? AND ds.entity_id IN (${ids.map(() => '?').join(', ')})
+      AND d.ref = ? AND d.status IN (${statuses.map(() => '?').join(', ')})
+  `;
+  const bindings: unknown[] = [entityType, ...ids, params?.ref ?? MAIN_REF, ...statuses];
+  if (params?.relation) {
+    query += ' AND ds.scope_relation = ?';
+    bindings.push(params.relation);
+  }
+  query += ' ORDER BY ds.scope_relation, d.type, d.title';
+
+  const result = await db.prepare(query).bind(...bindings).all<ScopedDocument>();
   return result.results ?? [];
 }
 
-export async function queryAgreementDetail(
+// ---------------------------------------------------------------------------
+// Version lineage
+// ---------------------------------------------------------------------------
+
+export interface DocumentVersion extends Document {
+  predecessorId?: string;
+  versionNote?: string;
+}
+
+// Guards the recursive walk against a supersession cycle in frontmatter
+const MAX_LINEAGE_DEPTH = 50;
+
+/**
+ * Full supersession lineage of a document, oldest first.
+ * Walks document_versions back through predecessors and forward through successors.
+ * Returns null if no document of the given type (any type when null) matches.
+ */
+export async function queryDocumentVersions(
   db: D1Database,
   idOrSlug: string,
-): Promise<DocumentWithDomains | null> {
-  const doc = await db
-    .prepare(`SELECT * FROM documents WHERE (id = ? OR slug = ?) AND type = 'agreement'`)
-    .bind(idOrSlug, idOrSlug)
-    .first<Document>();
-
+  type: Document['type'] | null,
+  ref = MAIN_REF,
+): Promise<DocumentVersion[] | null> {
+  const doc = await findDocument(db, idOrSlug, type, ref);
   if (!doc) return null;
 
-  const [domains, relationships] = await Promise.all([
-    queryDocumentDomains(db, doc.id),
-    queryDocumentRelationships(db, doc.id),
-  ]);
+  const result = await db
+    .prepare(`
+      WITH RECURSIVE
+        earlier(id, depth) AS (
+          SELECT ?1, 0
+          UNION
+          SELECT v.predecessor_id, earlier.depth - 1
+          FROM document_versions v
+          INNER JOIN earlier ON v.document_id = earlier.id
+          WHERE v.predecessor_id IS NOT NULL AND earlier.depth > -?2
+        ),
+        later(id, depth) AS (
+          SELECT ?1, 0
+          UNION
+          SELECT v.document_id, later.depth + 1
+          FROM document_versions v
+          INNER JOIN later ON v.predecessor_id = later.id
+          WHERE later.depth < ?2
+        ),
+        lineage(id, depth) AS (
+          SELECT id, MIN(depth) FROM (SELECT * FROM earlier UNION SELECT * FROM later) GROUP BY id
+        )
+      SELECT ${DOCUMENT_COLUMNS}, v.predecessor_id AS predecessorId, v.version_note AS versionNote
+      FROM lineage
+      INNER JOIN documents d ON d.id = lineage.id
+      LEFT JOIN document_versions v ON v.document_id = d.id
+      ORDER BY lineage.depth ASC, d.effective_from ASC
+    `)
+    .bind(doc.id, MAX_LINEAGE_DEPTH)
+    .all<DocumentVersion>();
+  return result.results ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// Relationship graph
+// ---------------------------------------------------------------------------
 
-  return { ...doc, domains, relationships };
+export type GraphDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface DocumentGraphNode extends Document {
+  depth: number; // hops from the root along the walked edges
+}
+
+export interface DocumentGraph {
+  rootId: string;
+  nodes: DocumentGraphNode[];
+  edges: DocumentRelationship[];
+}
+
+export const GRAPH_DEPTH_MAX = 10;
+
+/**
+ * Walk document_relationships out from one document. `outgoing` follows edges
+ * the document declares (a policy to the agreement authorising it), `incoming`
+ * follows edges pointing at it (an agreement to every policy it authorises).
+ * Nodes are every document reached within `depth` hops, in any status; edges are
+ * every relationship of the requested types between two of those nodes.
+ * Returns null if no document matches.
+ */
+export async function queryDocumentGraph(
+  db: D1Database,
+  idOrSlug: string,
+  params: {
+    depth?: number;
+    direction?: GraphDirection;
+    types?: DocumentRelationship['relationshipType'][];
+    ref?: string;
+  } = {},
+): Promise<DocumentGraph | null> {
+  const root = await findDocument(db, idOrSlug, null, params.ref ?? MAIN_REF);
+  if (!root) return null;
+
+  const direction = params.direction ?? 'outgoing';
+  const depth = Math.min(Math.max(params.depth ?? 1, 0), GRAPH_DEPTH_MAX);
+  const types = params.types?.length ? JSON.stringify(params.types) : null;
+
+  const steps: string[] = [];
+  if (direction !== 'incoming') {
+    steps.push(`
+      SELECT r.to_id, walk.depth + 1 FROM walk
+      INNER JOIN document_relationships r ON r.from_id = walk.id
+      WHERE walk.depth < ?2 AND (?3 IS NULL OR r.relationship_type IN (SELECT value FROM json_each(?3)))
+    `);
+  }
+  if (direction !== 'outgoing') {
+    steps.push(`
+      SELECT r.from_id, walk.depth + 1 FROM walk
+      INNER JOIN document_relationships r ON r.to_id = walk.id
+      WHERE walk.depth < ?2 AND (?3 IS NULL OR r.relationship_type IN (SELECT value FROM json_each(?3)))
+    `);
+  }
+
+  const nodes = await db
+    .prepare(`
+      WITH RECURSIVE
+        walk(id, depth) AS (
+          SELECT ?1, 0
+          ${steps.map((sql) => `UNION ${sql}`).join('\n')}
+        ),
+        reached(id, depth) AS (SELECT id, MIN(depth) FROM walk GROUP BY id)
+      SELECT ${DOCUMENT_COLUMNS}, reached.depth
+      FROM reached
+      INNER JOIN documents d ON d.id = reached.id
+      ORDER BY reached.depth, d.type, d.title
+    `)
+    .bind(root.id, depth, types)
+    .all<DocumentGraphNode>();
+  const nodeList = nodes.results ?? [];
+
+  const edges = await db
+    .prepare(`
+      SELECT r.from_id AS fromId, r.to_id AS toId, r.relationship_type AS relationshipType
+      FROM document_relationships r
+      WHERE r.from_id IN (SELECT value FROM json_each(?1))
+        AND r.to_id IN (SELECT value FROM json_each(?1))
+        AND (?2 IS NULL OR r.relationship_type IN (SELECT value FROM json_each(?2)))
+      ORDER BY r.from_id, r.relationship_type, r.to_id
+    `)
+    .bind(JSON.stringify(nodeList.map((n) => n.id)), types)
+    .all<DocumentRelationship>();
+
+  return { rootId: root.id, nodes: nodeList, edges: edges.results ?? [] };
 }
 
 // ---------------------------------------------------------------------------
-// Policies
+// Point-in-time (asOf)
 // ---------------------------------------------------------------------------
 
-export async function queryPolicies(
+/**
+ * A point in governance history. A date selects documents by their effective
+ * dates; a commit selects the snapshots sync recorded at that commit.
+ */
+export type AsOf = { date: string } | { commitSha: string; committedAt: string };
+
+/**
+ * Parse an `asOf` value: a YYYY-MM-DD date, or a full or abbreviated (7+ hex)
+ * commit SHA present in the ref's sync history.
+ * Returns null for anything else, including unknown or ambiguous SHAs.
+ */
+export async function resolveAsOf(db: D1Database, value: string, ref = MAIN_REF): Promise<AsOf | null> {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return Number.isNaN(Date.parse(value)) ? null : { date: value };
+  }
+  if (!/^[0-9a-f]{7,40}$/i.test(value)) return null;
+
+  const result = await db
+    .prepare(`
+      SELECT commit_sha AS commitSha, committed_at AS committedAt FROM sync_commits
+      WHERE ref = ? AND commit_sha LIKE ?
+      LIMIT 2
+    `)
+    .bind(ref, `${value.toLowerCase()}%`)
+    .all<{ commitSha: string; committedAt: string }>();
+  const matches = result.results ?? [];
+  return matches.length === 1 ? matches[0] : null;
+}
+
+// ---------------------------------------------------------------------------
+// Full-text search
+// ---------------------------------------------------------------------------
+
+export interface DocumentSearchResult extends Document {
+  snippet: string; // HTML-escaped body excerpt, matches wrapped in <mark>
+  rank: number; // bm25 score; lower is a better match
+}
+
+export const SEARCH_LIMIT_MAX = 100;
+
+/**
+ * Ranked search over document titles and bodies (see migrations/0009).
+ * Title matches weigh ten times body matches. Returns null when `q` holds no
+ * searchable terms.
+ */
+export async function searchDocuments(
   db: D1Database,
-  params: { domain?: string; agreementId?: string },
-): Promise<Document[]> {
+  params: {
+    q: string;
+    type?: Document['type'];
+    status?: Document['status'];
+    domain?: string;
+    ref?: string;
+    limit?: number;
+  },
+): Promise<DocumentSearchResult[] | null> {
+  const match = toFtsQuery(params.q);
+  if (!match) return null;
+
   let query = `
-    SELECT d.* FROM documents d
-    WHERE d.type = 'policy' AND d.status = 'active'
+    SELECT ${DOCUMENT_COLUMNS},
+           bm25(document_search, 0.0, 10.0, 1.0) AS rank,
+           snippet(document_search, 2, char(2), char(3), '…', 24) AS snippet
+    FROM document_search
+    INNER JOIN documents d ON d.id = document_search.document_id
   `;
+  let where = 'document_search MATCH ? AND d.ref = ?';
+  const bindings: unknown[] = [match, params.ref ?? MAIN_REF];
+
+  if (params.type) {
+    where += ' AND d.type = ?';
+    bindings.push(params.type);
+  }
+  if (params.status) {
+    where += ' AND d.status = ?';
+    bindings.push(params.status);
+  }
+  if (params.domain) {
+    query += `
+      INNER JOIN document_domains dd ON dd.document_id = d.id
+      INNER JOIN domains dom ON dom.id = dd.domain_id
+    `;
+    where += ' AND dom.slug = ?';
+    bindings.push(params.domain);
+  }
+
+  query += ` WHERE ${where} ORDER BY rank LIMIT ?`;
+  bindings.push(Math.min(params.limit ?? 20, SEARCH_LIMIT_MAX));
+
+  const result = await db.prepare(query).bind(...bindings).all<DocumentSearchResult>();
+  return (result.results ?? []).map((row) => ({
+    ...row,
+    snippet: escapeHtml(row.snippet).replace(/\u0002/g, '<mark>').replace(/\u0003/g, '</mark>'),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Sync diagnostics
+// ---------------------------------------------------------------------------
+
+export interface UnresolvedRelationship {
+  fromId: string;
+  fromSlug: string;
+  relationshipType: DocumentRelationship['relationshipType'];
+  targetSlug: string; // slug that no synced document carries
+  since: string;
+}
+
+/**
+ * Relationships still pending after the last sync's resolution pass —
+ * `related` entries that point at slugs no document carries.
+ */
+export async function queryUnresolvedRelationships(
+  db: D1Database,
+  ref = MAIN_REF,
+): Promise<UnresolvedRelationship[]> {
+  const result = await db
+    .prepare(`
+      SELECT p.from_id AS fromId, d.slug AS fromSlug, p.relationship_type AS relationshipType,
+             p.target_slug AS targetSlug, p.created_at AS since
+      FROM pending_relationships p
+      INNER JOIN documents d ON d.id = p.from_id
+      WHERE d.ref = ?
+      ORDER BY d.slug, p.target_slug
+    `)
+    .bind(ref)
+    .all<UnresolvedRelationship>();
+  return result.results ?? [];
+}
+
+export interface SyncRun {
+  id: string; // workflow instance ID
+  workflow: 'sync' | 'reconcile';
+  trigger: 'push' | 'resync' | 'cron';
+  ref: string;
+  commitSha?: string;
+  status: 'running' | 'succeeded' | 'failed';
+  filesProcessed: number;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+const SYNC_RUN_COLUMNS = `
+  id, workflow, trigger_source AS "trigger", ref, commit_sha AS commitSha, status,
+  files_processed AS filesProcessed, error, started_at AS startedAt,
+  finished_at AS finishedAt, duration_ms AS durationMs
+`;
+
+/**
+ * Sync workflow runs, most recent first.
+ */
+export async function querySyncRuns(
+  db: D1Database,
+  params: { status?: SyncRun['status']; commitSha?: string; ref?: string; limit?: number } = {},
+): Promise<SyncRun[]> {
+  let query = `SELECT ${SYNC_RUN_COLUMNS} FROM sync_runs WHERE 1 = 1`;
   const bindings: unknown[] = [];
 
+  if (params.ref) {
+    query += ' AND ref = ?';
+    bindings.push(params.ref);
+  }
+  if (params.status) {
+    query += ' AND status = ?';
+    bindings.push(params.status);
+  }
+  if (params.commitSha) {
+    query += ' AND commit_sha = ?';
+    bindings.push(params.commitSha);
+  }
+
+  query += ' ORDER BY started_at DESC LIMIT ?';
+  bindings.push(params.limit ?? 20);
+
+  const result = await db.prepare(query).bind(...bindings).all<SyncRun>();
+  return result.results ?? [];
+}
+
+/**
+ * The most recent successful run for a ref — the commit D1 currently reflects.
+ */
+export async function queryLastSuccessfulSync(db: D1Database, ref = MAIN_REF): Promise<SyncRun | null> {
+  return db
+    .prepare(`
+      SELECT ${SYNC_RUN_COLUMNS} FROM sync_runs
+      WHERE ref = ? AND status = 'succeeded'
+      ORDER BY finished_at DESC
+      LIMIT 1
+    `)
+    .bind(ref)
+    .first<SyncRun>();
+}
+
+export interface SyncDiagnosticRecord {
+  path: string;
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+}
+
+/**
+ * Per-file frontmatter warnings and errors recorded while syncing a commit.
+ */
+export async function querySyncDiagnostics(
+  db: D1Database,
+  commitSha: string,
+  params: { severity?: 'error' | 'warning' } = {},
+): Promise<SyncDiagnosticRecord[]> {
+  let query = `
+    SELECT path, severity, code, message FROM sync_diagnostics
+    WHERE commit_sha = ?
+  `;
+  const bindings: unknown[] = [commitSha];
+
+  if (params.severity) {
+    query += ' AND severity = ?';
+    bindings.push(params.severity);
+  }
+
+  query += ` ORDER BY path ASC, CASE severity WHEN 'error' THEN 0 ELSE 1 END, id ASC`;
+
+  const result = await db.prepare(query).bind(...bindings).all<SyncDiagnosticRecord>();
+  return result.results ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// SPRB ledger (written by the indexer in data/sprb-index.ts)
+// ---------------------------------------------------------------------------
+
+const SPRB_BALANCE_COLUMNS = `
+  address, balance, updated_block AS updatedBlock,
+  first_acquired_block AS firstAcquiredBlock, first_acquired_at AS firstAcquiredAt,
+  last_exited_block AS lastExitedBlock, last_exited_at AS lastExitedAt
+`;
+
+export interface SprbBalance {
+  address: string; // lowercased
+  balance: string; // base units, decimal
+  updatedBlock: number;
+  firstAcquiredBlock?: number;
+  firstAcquiredAt?: string;
+  lastExitedBlock?: number; // kept after a re-join; the address is a former member only while balance is '0'
+  lastExitedAt?: string;
+}
+
+export interface SprbMembershipEvent {
+  address: string;
+  event: 'join' | 'exit';
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  balance: string; // after the transfer
+  timestamp?: string;
+}
+
+/**
+ * SPRB holders of a contract by address — current ones (non-zero balance),
+ * plus every former one when `includeFormer` is set.
+ */
+export async function querySprbMembers(
+  db: D1Database,
+  contract: string,
+  params?: { includeFormer?: boolean },
+): Promise<SprbBalance[]> {
+  const result = await db
+    .prepare(`
+      SELECT ${SPRB_BALANCE_COLUMNS}
+      FROM sprb_balances
+      WHERE contract = ? AND (balance != '0' OR (? AND first_acquired_block IS NOT NULL))
+      ORDER BY address
+    `)
+    .bind(contract.toLowerCase(), params?.includeFormer ? 1 : 0)
+    .all<SprbBalance>();
+  return result.results ?? [];
+}
+
+/**
+ * The indexer's checkpoint for a contract: the last block scanned, and whether
+ * a run has reached the chain head at least once. Before that the ledger only
+ * covers part of the token's history. Returns null before the first run.
+ */
+export async function querySprbIndexState(
+  db: D1Database,
+  contract: string,
+): Promise<{ lastBlock: number; caughtUp: boolean } | null> {
+  const state = await db
+    .prepare('SELECT last_block AS lastBlock, caught_up AS caughtUp FROM sprb_index_state WHERE contract = ?')
+    .bind(contract.toLowerCase())
+    .first<{ lastBlock: number; caughtUp: number }>();
+  return state ? { lastBlock: state.lastBlock, caughtUp: Boolean(state.caughtUp) } : null;
+}
+
+/**
+ * One address's ledger entry. Returns null if it has never held SPRB.
+ */
+export async function querySprbBalance(db: D1Database, contract: string, address: string): Promise<SprbBalance | null> {
+  return db
+    .prepare(`SELECT ${SPRB_BALANCE_COLUMNS} FROM sprb_balances WHERE contract = ? AND address = ?`)
+    .bind(contract.toLowerCase(), address.toLowerCase())
+    .first<SprbBalance>();
+}
+
+/**
+ * Joins and exits, newest first, optionally for one address.
+ */
+export async function querySprbMembershipEvents(
+  db: D1Database,
+  contract: string,
+  params?: { address?: string },
+): Promise<SprbMembershipEvent[]> {
+  const result = await db
+    .prepare(`
+      SELECT h.address, h.event, h.block_number AS blockNumber, h.log_index AS logIndex,
+        t.tx_hash AS txHash, h.balance, h.block_timestamp AS timestamp
+      FROM sprb_balance_history h
+      INNER JOIN sprb_transfers t
+        ON t.contract = h.contract AND t.block_number = h.block_number AND t.log_index = h.log_index
+      WHERE h.contract = ?1 AND h.event IS NOT NULL AND (?2 IS NULL OR h.address = ?2)
+      ORDER BY h.block_number DESC, h.log_index DESC, h.event
+    `)
+    .bind(contract.toLowerCase(), params?.address?.toLowerCase() ?? null)
+    .all<SprbMembershipEvent>();
+  return result.results ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn free text into an FTS5 query without exposing FTS5 syntax: every word is
+ * quoted, so punctuation and operators (NEAR, column:) are literal text.
+ * "Quoted phrases" stay phrases, a trailing * keeps prefix matching, and OR
+ * between two terms is honoured. Other terms are ANDed.
+ */
+function toFtsQuery(q: string): string | null {
+  const terms: string[] = [];
+  for (const [, phrase, word] of q.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (phrase !== undefined) {
+      if (phrase.trim()) terms.push(`"${phrase.trim()}"`);
+    } else if (word === 'OR' || word === 'AND') {
+      if (word === 'OR' && terms.length > 0 && terms[terms.length - 1] !== 'OR') terms.push('OR');
+    } else {
+      const prefix = word.endsWith('*');
+      const text = word.replace(/["*]/g, '');
+      if (text) terms.push(`"${text}"${prefix ? '*' : ''}`);
+    }
+  }
+  if (terms[terms.length - 1] === 'OR') terms.pop();
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/** Whether walking up the parent chain from `parentId` reaches `node`, i.e. nesting would form a cycle. */
+function formsCycle(node: Domain, parentId: string, nodes: Map<string, Domain>): boolean {
+  const seen = new Set<string>();
+  for (let id: string | undefined = parentId; id && !seen.has(id); id = nodes.get(id)?.parentId) {
+    if (id === node.id) return true;
+    seen.add(id);
+  }
+  return false;
+}
+
+/**
+ * Look up a document by ID or current slug, falling back to the slugs it held
+ * before a rename (document_aliases). Sets `redirectedFrom` when an alias matched.
+ * A null type matches documents of any type.
+ */
+async function findDocument(
+  db: D1Database,
+  idOrSlug: string,
+  type: Document['type'] | null,
+  ref: string,
+): Promise<(Document & { redirectedFrom?: string }) | null> {
+  const doc = await db
+    .prepare(`
+      SELECT ${DOCUMENT_COLUMNS} FROM documents d
+      WHERE (d.id = ?1 OR d.slug = ?1) AND (?2 IS NULL OR d.type = ?2) AND d.ref = ?3
+    `)
+    .bind(idOrSlug, type, ref)
+    .first<Document>();
+  if (doc) return doc;
+
+  const aliased = await db
+    .prepare(`
+      SELECT ${DOCUMENT_COLUMNS} FROM document_aliases a
+      INNER JOIN documents d ON d.id = a.document_id
+      WHERE a.ref = ?3 AND a.slug = ?1 AND (?2 IS NULL OR d.type = ?2)
+    `)
+    .bind(idOrSlug, type, ref)
+    .first<Document>();
+  return aliased ? { ...aliased, redirectedFrom: idOrSlug } : null;
+}
+
+/**
+ * Shared list query behind queryDocuments and the agreement and policy views.
+ * Ranked by relevance when searching, otherwise by `orderBy`.
+ */
+async function listDocuments(db: D1Database, params: DocumentQuery, orderBy: string): Promise<Document[] | null> {
+  const source = documentSource(params.ref ?? MAIN_REF, params.asOf);
+  let query = `SELECT ${DOCUMENT_COLUMNS} FROM ${source.from}`;
+  let where = source.where;
+  const bindings: unknown[] = [...source.bindings];
+
+  if (params.type) {
+    where += ' AND d.type = ?';
+    bindings.push(params.type);
+  }
+
+  if (params.status) {
+    const statuses = Array.isArray(params.status) ? params.status : [params.status];
+    where += ` AND d.status IN (${statuses.map(() => '?').join(', ')})`;
+    bindings.push(...statuses);
+  }
+
   if (params.domain) {
-    query = `
-      SELECT d.* FROM documents d
+    query += `
       INNER JOIN document_domains dd ON dd.document_id = d.id
       INNER JOIN domains dom ON dom.id = dd.domain_id
-      WHERE d.type = 'policy' AND d.status = 'active'
-        AND dom.slug = ?
     `;
+    where += ' AND dom.slug = ?';
     bindings.push(params.domain);
   }
 
   if (params.agreementId) {
-    // Policies authorised by a specific agreement
-    query = `
-      SELECT d.* FROM documents d
+    // Documents authorised by a specific agreement
+    query += `
       INNER JOIN document_relationships dr ON dr.from_id = d.id
       INNER JOIN documents agreement ON agreement.id = dr.to_id
-      WHERE d.type = 'policy' AND d.status = 'active'
-        AND dr.relationship_type = 'authorized_by'
-        AND (agreement.id = ? OR agreement.slug = ?)
     `;
+    where += ` AND dr.relationship_type = 'authorized_by' AND (agreement.id = ? OR agreement.slug = ?)`;
     bindings.push(params.agreementId, params.agreementId);
   }
 
-  query += ' ORDER BY d.title ASC';
+  if (params.q !== undefined) {
+    const match = toFtsQuery(params.q);
+    if (!match) return null;
+    // Search matches current text, also for asOf queries
+    query += ' INNER JOIN document_search ON document_search.document_id = d.id';
+    where += ' AND document_search MATCH ?';
+    bindings.push(match);
+    orderBy = 'bm25(document_search, 0.0, 10.0, 1.0)';
+  }
+
+  query += ` WHERE ${where} ORDER BY ${orderBy}`;
 
   const result = await db.prepare(query).bind(...bindings).all<Document>();
   return result.results ?? [];
 }
 
-export async function queryPolicyDetail(
+/**
+ * The agreement and policy lists show documents in force: active ones, or for a
+ * past date every document in force then, whatever its status today.
+ */
+function defaultStatus(asOf?: AsOf): Document['status'] | undefined {
+  return asOf && 'date' in asOf ? undefined : 'active';
+}
+
+async function documentDetail(
   db: D1Database,
   idOrSlug: string,
+  type: Document['type'] | null,
+  ref: string,
+  asOf?: AsOf,
 ): Promise<DocumentWithDomains | null> {
-  const doc = await db
-    .prepare(`SELECT * FROM documents WHERE (id = ? OR slug = ?) AND type = 'policy'`)
-    .bind(idOrSlug, idOrSlug)
-    .first<Document>();
-
+  const doc = await findDocumentAsOf(db, idOrSlug, type, ref, asOf);
   if (!doc) return null;
 
-  const [domains, relationships] = await Promise.all([
+  const [domains, relationships, scope] = await Promise.all([
     queryDocumentDomains(db, doc.id),
     queryDocumentRelationships(db, doc.id),
+    queryDocumentScope(db, doc.id),
   ]);
 
-  return { ...doc, domains, relationships };
+  return { ...doc, domains, relationships, scope };
 }
 
-// ---------------------------------------------------------------------------
-// Shared helpers
-// ---------------------------------------------------------------------------
+/**
+ * FROM source and WHERE condition for document lists. Without asOf: live rows.
+ * With a date: rows in force on that date. With a commit: each document's
+ * latest snapshot at or before the commit. Callers add any status filter.
+ * Bindings are in placeholder order (FROM before WHERE).
+ */
+function documentSource(ref: string, asOf?: AsOf): { from: string; where: string; bindings: unknown[] } {
+  if (!asOf) {
+    return { from: 'documents d', where: 'd.ref = ?', bindings: [ref] };
+  }
+  if ('date' in asOf) {
+    return { from: 'documents d', where: `d.ref = ? AND ${inForceOn('?')}`, bindings: [ref, asOf.date, asOf.date] };
+  }
+  return { from: `(${snapshotsAsOf('?', '?')}) d`, where: '1 = 1', bindings: [ref, asOf.committedAt] };
+}
+
+/**
+ * In force on a date: enacted (not draft), effective_from on or before it, and
+ * not yet ended. A retired document with no effective_to ended when it was retired.
+ * Documents without an effective_from are never in force by date.
+ */
+function inForceOn(dateParam: string): string {
+  return `
+    d.status != 'draft'
+    AND d.effective_from IS NOT NULL AND d.effective_from <= ${dateParam}
+    AND COALESCE(d.effective_to, CASE WHEN d.status = 'retired' THEN date(d.updated_at) END, '9999-12-31') > ${dateParam}
+  `;
+}
+
+/** Latest snapshot per document in a ref at or before a commit timestamp, shaped like a documents row. */
+function snapshotsAsOf(refParam: string, committedAtParam: string): string {
+  return `
+    SELECT s.document_id AS id, s.ref, s.slug, s.type, s.title, s.status, s.effective_from, s.effective_to,
+           s.content_hash, s.enacted_by, s.r2_key, s.commit_sha
+    FROM document_snapshots s
+    WHERE s.ref = ${refParam} AND s.id = (
+      SELECT id FROM document_snapshots
+      WHERE document_id = s.document_id AND committed_at <= ${committedAtParam}
+      ORDER BY committed_at DESC, created_at DESC
+      LIMIT 1
+    )
+  `;
+}
+
+/**
+ * findDocument at a point in history. For a date, returns the version in the
+ * document's supersession lineage that was in force then; for a commit, the
+ * document's snapshot at that commit. Domains, relationships and scope are not
+ * versioned and always reflect the latest sync.
+ */
+async function findDocumentAsOf(
+  db: D1Database,
+  idOrSlug: string,
+  type: Document['type'] | null,
+  ref: string,
+  asOf?: AsOf,
+): Promise<(Document & { redirectedFrom?: string; snapshotCommitSha?: string }) | null> {
+  const doc = await findDocument(db, idOrSlug, type, ref);
+  if (!doc || !asOf) return doc;
+
+  if ('date' in asOf) {
+    const lineage = (await queryDocumentVersions(db, doc.id, doc.type, ref)) ?? [doc];
+    // One JSON parameter: a long lineage would exceed D1's 100 bound parameters
+    const ids = lineage.map((v) => v.id);
+    const inForce = await db
+      .prepare(`
+        SELECT ${DOCUMENT_COLUMNS} FROM documents d
+        WHERE d.id IN (SELECT value FROM json_each(?1)) AND ${inForceOn('?2')}
+        ORDER BY d.effective_from DESC
+        LIMIT 1
+      `)
+      .bind(JSON.stringify(ids), asOf.date)
+      .first<Document>();
+    return inForce ? { ...inForce, redirectedFrom: doc.redirectedFrom } : null;
+  }
+
+  const snapshot = await db
+    .prepare(`
+      SELECT ${DOCUMENT_COLUMNS}, d.commit_sha AS snapshotCommitSha
+      FROM (${snapshotsAsOf('?', '?')}) d
+      WHERE d.id = ?
+    `)
+    .bind(ref, asOf.committedAt, doc.id)
+    .first<Document & { snapshotCommitSha: string }>();
+  return snapshot ? { ...snapshot, redirectedFrom: doc.redirectedFrom } : null;
+}
 
 async function queryDocumentDomains(db: D1Database, documentId: string): Promise<Domain[]> {
   const result = await db
     .prepare(`
-      SELECT dom.* FROM domains dom
+      SELECT ${DOMAIN_COLUMNS} FROM domains dom
       INNER JOIN document_domains dd ON dd.domain_id = dom.id
       WHERE dd.document_id = ?
     `)
@@ -173,10 +1081,24 @@ async function queryDocumentRelationships(
 ): Promise<DocumentRelationship[]> {
   const result = await db
     .prepare(`
-      SELECT * FROM document_relationships
+      SELECT from_id AS fromId, to_id AS toId, relationship_type AS relationshipType
+      FROM document_relationships
       WHERE from_id = ? OR to_id = ?
     `)
     .bind(documentId, documentId)
     .all<DocumentRelationship>();
   return result.results ?? [];
 }
+
+async function queryDocumentScope(db: D1Database, documentId: string): Promise<DocumentScope[]> {
+  const result = await db
+    .prepare(`
+      SELECT entity_type AS entityType, entity_id AS entityId, scope_relation AS scopeRelation
+      FROM document_scope
+      WHERE document_id = ?
+      ORDER BY scope_relation, entity_type, entity_id
+    `)
+    .bind(documentId)
+    .all<DocumentScope>();
+  return result.results ?? [];
+}
@@ -0,0 +1,142 @@
+/**
+ * "Who can decide this?" — joins a governance domain to the Hats role
+ * responsible for it (domains.hat_id), the people wearing that hat, the admin
+ * hats above it, and the policies that set out how decisions are made.
+ *
+ * A domain without a hat of its own falls under the nearest ancestor domain
+ * that has one. Hats and ENS are supplementary: when the subgraph or RPC is
+ * unavailable the domain and policies are still returned.
+ */
+
+import {
+  queryDomains,
+  queryPolicies,
+  searchDomains,
+  type Document,
+  type Domain,
+} from './db';
+import { fetchScopedDocuments } from './scope';
+import { resolveEnsProfiles } from './sources/ens';
+import { fetchRoleAncestors, fetchRoleDetail, type Hat } from './sources/hats';
+
+export type Role = Omit<Hat, 'subHats'>;
+
+export interface DecisionAuthority {
+  domain: Domain;
+  hatId: string | null;
+  hatDomain: string | null; // slug of the ancestor domain the hat was inherited from, if not the domain itself
+  hat: Role | null; // null when there is no hat or the Hats tree does not have it
+  overrides: Role[]; // admin hats above `hat`, nearest first
+  policies: Document[]; // active policies tagged with the domain or scoped to the hat
+}
+
+export interface DecisionLookup {
+  matchedBy: 'domain' | 'topic';
+  results: DecisionAuthority[];
+}
+
+/**
+ * Resolve a domain slug or ID directly; anything else is treated as a topic
+ * and matched against domains with searchDomains.
+ */
+export async function whoCanDecide(env: Env, domainOrTopic: string, ref?: string): Promise<DecisionLookup> {
+  const domains = await queryDomains(env.GOVERNANCE_DB, { includeRemoved: true });
+  const exact = domains.find((d) => d.slug === domainOrTopic || d.id === domainOrTopic);
+  if (exact) return { matchedBy: 'domain', results: [await decisionAuthority(env, exact, domains, ref)] };
+
+  const matches = await searchDomains(env.GOVERNANCE_DB, domainOrTopic, { ref, limit: 3 });
+  return {
+    matchedBy: 'topic',
+    results: await Promise.all(matches.map((domain) => decisionAuthority(env, domain, domains, ref))),
+  };
+}
+
+/**
+ * Decision authority for one domain by slug or ID. Returns null if no domain matches.
+ */
+export async function queryDecisionAuthority(
+  env: Env,
+  idOrSlug: string,
+  ref?: string,
+): Promise<DecisionAuthority | null> {
+  const domains = await queryDomains(env.GOVERNANCE_DB, { includeRemoved: true });
+  const domain = domains.find((d) => d.slug === idOrSlug || d.id === idOrSlug);
+  return domain ? decisionAuthority(env, domain, domains, ref) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+async function decisionAuthority(
+  env: Env,
+  domain: Domain,
+  domains: Domain[],
+  ref?: string,
+): Promise<DecisionAuthority> {
+  const hatSource = responsibleDomain(domain, domains);
+  const hatId = hatSource?.hatId ?? null;
+
+  const [hat, ancestors, domainPolicies, hatDocuments] = await Promise.all([
+    hatId ? fetchRoleDetail(hatId, env).catch(logHatError(hatId)) : null,
+    hatId ? fetchRoleAncestors(hatId, env).catch(logHatError(hatId)) : null,
+    queryPolicies(env.GOVERNANCE_DB, { domain: domain.slug, ref }),
+    hatId ? fetchScopedDocuments(env, 'hat', hatId, { ref }) : [],
+  ]);
+
+  const policies = [...(domainPolicies ?? [])];
+  for (const doc of hatDocuments) {
+    if (doc.type === 'policy' && !policies.some((p) => p.id === doc.id)) {
+      const { scopeRelation: _relation, ...policy } = doc;
+      policies.push(policy);
+    }
+  }
+
+  const roles = [hat, ...(ancestors ?? [])].filter((h): h is Hat => Boolean(h)).map(withoutSubHats);
+  await withEnsNames(roles, env);
+
+  return {
+    domain,
+    hatId,
+    hatDomain: hatSource && hatSource.id !== domain.id ? hatSource.slug : null,
+    hat: hat ? roles[0] : null,
+    overrides: hat ? roles.slice(1) : [],
+    policies,
+  };
+}
+
+/** The domain itself if it has a hat, else the nearest ancestor that does. */
+function responsibleDomain(domain: Domain, domains: Domain[]): Domain | null {
+  const seen = new Set<string>();
+  for (let current: Domain | undefined = domain; current && !seen.has(current.id); ) {
+    if (current.hatId) return current;
+    seen.add(current.id);
+    current = domains.find((d) => d.id === current!.parentId);
+  }
+  return null;
+}
+
+function withoutSubHats({ subHats: _subHats, ...role }: Hat): Role {
+  return { ...role, wearers: role.wearers.map((w) => ({ ...w })) };
+}
+
+/** Fill in wearers' ENS names in place. */
+async function withEnsNames(roles: Role[], env: Env): Promise<void> {
+  const addresses = [...new Set(roles.flatMap((role) => role.wearers.map((w) => w.address.toLowerCase())))];
+  if (addresses.length === 0) return;
+  const profiles = await resolveEnsProfiles(addresses, env).catch((err) => {
+    console.error('Could not resolve ENS names for hat wearers:', err);
+    return {} as Awaited<ReturnType<typeof resolveEnsProfiles>>;
+  });
+  for (const wearer of roles.flatMap((role) => role.wearers)) {
+    const ensName = profiles[wearer.address.toLowerCase()]?.ensName;
+    if (ensName) wearer.ensName = ensName;
+  }
+}
+
+function logHatError(hatId: string) {
+  return (err: unknown) => {
+    console.error(`Could not resolve hat ${hatId}:`, err);
+    return null;
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Text renderings of a document relationship graph (see queryDocumentGraph).
+ *
+ * Both formats draw every node with its title, type and status. The root
+ * document is bold; superseded and retired documents are dashed so lapsed
+ * authority stands out. Edges are labelled with the relationship type.
+ */
+
+import type { DocumentGraph, DocumentGraphNode } from './db';
+
+/** Graphviz DOT, e.g. for `dot -Tsvg`. */
+export function renderDot(graph: DocumentGraph): string {
+  const lines = ['digraph governance {', '  rankdir=LR;', '  node [shape=box, fontname="Helvetica"];'];
+  for (const node of graph.nodes) {
+    const styles = [
+      node.id === graph.rootId ? 'bold' : null,
+      isLapsed(node) ? 'dashed' : null,
+    ].filter(Boolean);
+    const style = styles.length > 0 ? `, style="${styles.join(',')}"` : '';
+    lines.push(`  ${dotString(node.id)} [label=${dotString(`${node.title}\n${node.type} · ${node.status}`)}${style}];`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${dotString(edge.fromId)} -> ${dotString(edge.toId)} [label=${dotString(edge.relationshipType)}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/** Mermaid flowchart, e.g. for a fenced ```mermaid block in GitHub markdown. */
+export function renderMermaid(graph: DocumentGraph): string {
+  // Document IDs can hold characters Mermaid rejects (branch prefixes, dots), so nodes get positional IDs
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const lines = ['flowchart LR'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.id)}["${mermaidText(node.title)}<br/>${node.type} · ${node.status}"]`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${ids.get(edge.fromId)} -->|${edge.relationshipType}| ${ids.get(edge.toId)}`);
+  }
+  lines.push(`  style ${ids.get(graph.rootId)} stroke-width:3px`);
+  for (const node of graph.nodes.filter(isLapsed)) {
+    lines.push(`  style ${ids.get(node.id)} stroke-dasharray:5 5`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+function isLapsed(node: DocumentGraphNode): boolean {
+  return node.status === 'superseded' || node.status === 'retired';
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
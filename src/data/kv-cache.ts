@@ -10,8 +10,8 @@
  */
 
 import { fetchMembers, buildMembersPayload } from './sources/sprb';
-import { fetchRoles } from './sources/hats';
-import { fetchProposals, fetchActivity } from './sources/snapshot';
+import { fetchRolesFromSubgraph } from './sources/hats';
+import { fetchProposals, fetchVoteActivity } from './sources/snapshot';
 import { fetchGroups } from './sources/groups';
 import { buildDaoDescriptor } from '../schemas/daoip2';
 
@@ -60,8 +60,8 @@ export async function runCacheRefresh(env: Env, options?: { force?: boolean }):
       return members;
     }),
     refreshIfDue(env, 'daoip2:proposals', TTL.proposals, now, force, () => fetchProposals(env, {})),
-    refreshIfDue(env, 'daoip2:activity', TTL.activity, now, force, () => fetchActivity(env, {})),
-    refreshIfDue(env, 'sb:roles', TTL.roles, now, force, () => fetchRoles(env)),
+    refreshIfDue(env, 'daoip2:activity', TTL.activity, now, force, () => fetchVoteActivity(env)),
+    refreshIfDue(env, 'sb:roles:v2', TTL.roles, now, force, async () => (await fetchRolesFromSubgraph(env)) ?? []),
     refreshIfDue(env, 'sb:groups', TTL.groups, now, force, () => fetchGroups(env)),
   ]);
 
@@ -0,0 +1,103 @@
+/**
+ * Member profiles: one address as seen from every source — SPRB balance and
+ * membership dates, ENS, the hats it wears (each with its path from the top
+ * hat), the groups those hats place it in, its Snapshot proposals and votes,
+ * and the documents naming it as a party or signatory.
+ *
+ * The ledger and document index are local; when the Hats subgraph, the groups
+ * repository or Snapshot cannot be reached, their parts come back empty.
+ */
+
+import { queryScopedDocuments, type ScopedDocument } from './db';
+import { resolveEnsName } from './sources/ens';
+import { fetchGroups } from './sources/groups';
+import { fetchRoleAncestors, fetchRoles, type Hat } from './sources/hats';
+import { fetchMemberSnapshotActivity, type Daoip2Proposal, type MemberVote } from './sources/snapshot';
+import { fetchMember, type Member, type MemberGroup, type MemberRole } from './sources/sprb';
+
+export interface WornHat extends MemberRole {
+  imageUri?: string;
+  path: MemberRole[]; // from the top hat down to this hat
+}
+
+export interface MemberProfile extends Member {
+  current: boolean; // holds SPRB now (false when the balance could not be read)
+  hats: WornHat[];
+  groups: MemberGroup[]; // active groups linked to a worn hat or a hat above one
+  proposals: Daoip2Proposal[]; // authored
+  votes: MemberVote[];
+  documents: ScopedDocument[]; // active documents naming the address as party or signatory
+}
+
+/**
+ * Look up a profile by address or ENS name. Returns null if the input is
+ * neither an address nor an ENS name that resolves (or ENS is unreachable).
+ * When the balance or ENS profile cannot be read, the profile carries the
+ * address alone and `balance` is omitted.
+ */
+export async function fetchMemberProfile(addressOrEns: string, env: Env): Promise<MemberProfile | null> {
+  const address = /^0x[0-9a-f]{40}$/i.test(addressOrEns)
+    ? addressOrEns.toLowerCase()
+    : addressOrEns.includes('.')
+      ? await resolveEnsName(addressOrEns, env).catch(logError<string | null>('ENS address', addressOrEns, null))
+      : null;
+  if (!address) return null;
+
+  const [member, hats, snapshot, scoped] = await Promise.all([
+    fetchMember(address, env).catch(logError<Member>('balance and ENS profile', address, { id: `eip155:1:${address}`, address })),
+    fetchWornHats(address, env).catch(logError<WornHat[]>('hats', address, [])),
+    fetchMemberSnapshotActivity(address, env).catch(logError('Snapshot activity', address, { proposals: [], votes: [] })),
+    queryScopedDocuments(env.GOVERNANCE_DB, 'address', [address]),
+  ]);
+  const groups = await fetchHatGroups(hats, env).catch(logError<MemberGroup[]>('groups', address, []));
+
+  return {
+    ...member,
+    current: member.balance !== undefined && member.balance !== '0',
+    hats,
+    groups,
+    proposals: snapshot.proposals,
+    votes: snapshot.votes,
+    documents: scoped.filter((doc) => doc.scopeRelation === 'party' || doc.scopeRelation === 'signatory'),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+async function fetchWornHats(address: string, env: Env): Promise<WornHat[]> {
+  const roles = await fetchRoles(env);
+  if (!Array.isArray(roles)) return [];
+  // The tree lists every hat at the top level
+  const worn = roles.filter((hat) => hat.wearers.some((w) => w.address.toLowerCase() === address));
+  return Promise.all(worn.map(async (hat) => {
+    const ancestors = await fetchRoleAncestors(hat.id, env);
+    return {
+      ...toRole(hat),
+      ...(hat.imageUri ? { imageUri: hat.imageUri } : {}),
+      path: [...ancestors.reverse(), hat].map(toRole),
+    };
+  }));
+}
+
+/** Groups linked to a worn hat or any hat on its path — wearing a hat places you in the groups above it. */
+async function fetchHatGroups(worn: WornHat[], env: Env): Promise<MemberGroup[]> {
+  if (worn.length === 0) return [];
+  const hatIds = new Set(worn.flatMap((hat) => hat.path.flatMap((step) => [step.id, step.prettyId])));
+  const groups = await fetchGroups(env);
+  return groups
+    .filter((g) => g.linkedHats?.some((hatId) => hatIds.has(hatId)))
+    .map(({ id, name }) => ({ id, name }));
+}
+
+function toRole({ id, prettyId, details }: Hat): MemberRole {
+  return { id, prettyId, details };
+}
+
+function logError<T>(part: string, address: string, fallback: T) {
+  return (err: unknown): T => {
+    console.error(`Could not load ${part} for member ${address}:`, err);
+    return fallback;
+  };
+}
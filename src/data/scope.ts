@@ -0,0 +1,29 @@
+/**
+ * Entity scope lookup: the documents whose frontmatter scope names a hat,
+ * address or group.
+ *
+ * Frontmatter can refer to a hat by its hex ID or its pretty ID
+ * (0x0000001c.0001), so hats are looked up under both when the Hats tree
+ * knows the hat. Addresses are matched case-insensitively; group IDs as given.
+ */
+
+import { queryScopedDocuments, type DocumentScope, type ScopedDocument } from './db';
+import { fetchRoleDetail } from './sources/hats';
+
+export async function fetchScopedDocuments(
+  env: Env,
+  entityType: DocumentScope['entityType'],
+  entityId: string,
+  params?: Parameters<typeof queryScopedDocuments>[3],
+): Promise<ScopedDocument[]> {
+  const ids = [entityId];
+  if (entityType === 'hat') {
+    // The lookup only widens the match — without the subgraph, the ID as given still works
+    const hat = await fetchRoleDetail(entityId, env).catch((err) => {
+      console.error(`Could not resolve hat ${entityId} for scope lookup:`, err);
+      return null;
+    });
+    if (hat) ids.push(hat.id, hat.prettyId);
+  }
+  return queryScopedDocuments(env.GOVERNANCE_DB, entityType, ids, params);
+}
@@ -54,6 +54,29 @@ export async function resolveEnsProfiles(
   return profiles;
 }
 
+/**
+ * Resolve an ENS name to a lowercased address — from the reverse records
+ * already cached in 'ens:profiles' when one matches, else from the name's addr
+ * record. Returns null if the name does not resolve.
+ */
+export async function resolveEnsName(name: string, env: Env): Promise<string | null> {
+  const normalised = name.toLowerCase();
+  const cached = await env.GOVERNANCE_CACHE.get('ens:profiles');
+  const profiles: Record<string, EnsProfile> = cached ? JSON.parse(cached) : {};
+  const known = Object.keys(profiles).find((address) => profiles[address].ensName?.toLowerCase() === normalised);
+  if (known) return known;
+
+  try {
+    // ABI: addr(bytes32 node) → address
+    const result = await ethCall(env, ENS_UNIVERSAL_RESOLVER, '0x3b3b57de' + namehash(normalised).slice(2));
+    const address = result ? '0x' + result.slice(-40).toLowerCase() : null;
+    return address && !/^0x0{40}$/.test(address) ? address : null;
+  } catch (err) {
+    console.error(`ENS resolution failed for ${name}:`, err);
+    return null;
+  }
+}
+
 /**
  * Resolve the DAO's identity from its ENS name.
  * Reads name, description, avatar, url, and daoURI text records.
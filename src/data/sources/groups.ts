@@ -8,6 +8,7 @@
  * complete. The data/groups/ path and frontmatter schema need to be confirmed.
  */
 
+import { apiBase } from '../../sync/github';
 import { parseGroupFrontmatter } from '../../sync/parser';
 
 const GROUPS_PATH = 'data/groups';
@@ -46,7 +47,7 @@ async function fetchFromGitHub(env: Env): Promise<Group[]> {
   const token = env.GITHUB_TOKEN;
 
   // List files in data/groups/
-  const listUrl = `https://api.github.com/repos/${repo}/contents/${GROUPS_PATH}`;
+  const listUrl = `${apiBase(env)}/repos/${repo}/contents/${GROUPS_PATH}`;
   const listResponse = await fetch(listUrl, {
     headers: {
       Authorization: `Bearer ${token}`,
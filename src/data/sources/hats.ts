@@ -2,7 +2,8 @@
  * Hats Protocol data source.
  *
  * Queries the Hats subgraph on Ethereum mainnet for the SuperBenefit tree.
- * Results are cached in KV under 'sb:roles'.
+ * Results are cached in KV under 'sb:roles:v2' (v1 entries stored wearers in
+ * the subgraph's { id } shape).
  *
  * OPEN QUESTION: Mainnet subgraph endpoint and HATS_TREE_ID must be confirmed.
  * Fallback: Hats Protocol REST API at api.hatsprotocol.xyz if subgraph is unreliable.
@@ -61,17 +62,20 @@ export interface HatsTree {
   hats: Hat[];
 }
 
+// The subgraph returns wearers as accounts ({ id }); Hat carries them as addresses
+type SubgraphHat = Omit<Hat, 'wearers' | 'subHats'> & { wearers: { id: string }[]; subHats?: SubgraphHat[] };
+
 export async function fetchRoles(env: Env, params?: { hatId?: string }): Promise<Hat[] | Hat | null> {
   // Check KV cache first
-  const cached = await env.GOVERNANCE_CACHE.get('sb:roles');
+  const cached = await env.GOVERNANCE_CACHE.get('sb:roles:v2');
   let tree: Hat[] | null = null;
 
   if (cached) {
     tree = JSON.parse(cached);
   } else {
-    tree = await fetchFromSubgraph(env);
+    tree = await fetchRolesFromSubgraph(env);
     if (tree) {
-      await env.GOVERNANCE_CACHE.put('sb:roles', JSON.stringify(tree), { expirationTtl: 30 * 60 });
+      await env.GOVERNANCE_CACHE.put('sb:roles:v2', JSON.stringify(tree), { expirationTtl: 30 * 60 });
     }
   }
 
@@ -89,7 +93,46 @@ export async function fetchRoleDetail(hatId: string, env: Env): Promise<Hat | nu
   return findHat(roles, hatId) ?? null;
 }
 
-async function fetchFromSubgraph(env: Env): Promise<Hat[] | null> {
+/**
+ * The admin hats above a hat, nearest first, up to the top hat. In Hats
+ * Protocol each of them can act on the hats below it.
+ */
+export async function fetchRoleAncestors(hatId: string, env: Env): Promise<Hat[]> {
+  const roles = await fetchRoles(env);
+  if (!Array.isArray(roles)) return [];
+  const ancestors: Hat[] = [];
+  let current = findHat(roles, hatId);
+  while (current) {
+    const childId = current.id;
+    // The tree lists every hat at the top level, each with its direct subHats
+    current = roles.find((h) => h.subHats?.some((sub) => sub.id === childId));
+    if (!current || ancestors.includes(current)) break;
+    ancestors.push(current);
+  }
+  return ancestors;
+}
+
+/**
+ * A hat and every hat below it, breadth first. Wearing any of them places an
+ * address within the hat's role.
+ */
+export async function fetchRoleDescendants(hatId: string, env: Env): Promise<Hat[]> {
+  const roles = await fetchRoles(env);
+  if (!Array.isArray(roles)) return [];
+  const root = findHat(roles, hatId);
+  const descendants: Hat[] = [];
+  for (const queue = root ? [root] : []; queue.length > 0; ) {
+    const hat = queue.shift()!;
+    if (descendants.some((h) => h.id === hat.id)) continue;
+    descendants.push(hat);
+    // Continue from the top-level entry, which carries the sub-hat's own subHats
+    queue.push(...(hat.subHats ?? []).map((sub) => findHat(roles, sub.id) ?? sub));
+  }
+  return descendants;
+}
+
+/** The role tree straight from the subgraph, bypassing the cache. Used by the cron refresh. */
+export async function fetchRolesFromSubgraph(env: Env): Promise<Hat[] | null> {
   const treeId = env.HATS_TREE_ID;
   if (!treeId) {
     console.warn('HATS_TREE_ID not configured');
@@ -106,18 +149,28 @@ async function fetchFromSubgraph(env: Env): Promise<Hat[] | null> {
     throw new Error(`Hats subgraph error: ${response.status}`);
   }
 
-  const data = await response.json() as { data?: { tree?: HatsTree }; errors?: unknown[] };
+  const data = await response.json() as { data?: { tree?: { hats: SubgraphHat[] } }; errors?: unknown[] };
 
   if (data.errors?.length) {
     throw new Error(`Hats subgraph GraphQL error: ${JSON.stringify(data.errors)}`);
   }
 
-  return data.data?.tree?.hats ?? null;
+  return data.data?.tree?.hats.map(toHat) ?? null;
+}
+
+function toHat({ wearers, subHats, ...hat }: SubgraphHat): Hat {
+  return {
+    ...hat,
+    wearers: wearers.map((w) => ({ address: w.id })),
+    ...(subHats ? { subHats: subHats.map(toHat) } : {}),
+  };
 }
 
 function findHat(hats: Hat[], hatId: string): Hat | undefined {
+  // Prefer the top-level entry — the copies nested under subHats carry fewer fields
+  const match = hats.find((hat) => hat.id === hatId || hat.prettyId === hatId);
+  if (match) return match;
   for (const hat of hats) {
-    if (hat.id === hatId || hat.prettyId === hatId) return hat;
     if (hat.subHats) {
       const found = findHat(hat.subHats, hatId);
       if (found) return found;
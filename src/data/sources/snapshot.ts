@@ -3,8 +3,11 @@
  *
  * Queries the Snapshot GraphQL API for the superbenefit.eth space.
  * Results cached in KV under 'daoip2:proposals' and 'daoip2:activity'.
+ * The activity log also carries membership events from the SPRB source.
  */
 
+import { fetchMembershipActivity } from './sprb';
+
 const SNAPSHOT_API = 'https://hub.snapshot.org/graphql';
 
 const PROPOSALS_QUERY = `
@@ -58,6 +61,50 @@ const SINGLE_PROPOSAL_QUERY = `
   }
 `;
 
+const MEMBER_QUERY = `
+  query GetMemberActivity($space: String!, $address: String!) {
+    proposals(
+      first: 100,
+      where: { space: $space, author: $address }
+      orderBy: "created"
+      orderDirection: desc
+    ) {
+      id
+      title
+      body
+      state
+      author
+      created
+      start
+      end
+      scores_total
+      scores
+      choices
+      votes
+      quorum
+      discussion
+      type
+      ipfs
+    }
+    votes(
+      first: 1000,
+      where: { space: $space, voter: $address }
+      orderBy: "created"
+      orderDirection: desc
+    ) {
+      id
+      choice
+      vp
+      created
+      proposal {
+        id
+        title
+        choices
+      }
+    }
+  }
+`;
+
 export interface SnapshotProposal {
   id: string;
   title: string;
@@ -93,6 +140,25 @@ export interface Daoip2Proposal {
   totalScore: number;
 }
 
+export interface MemberVote {
+  '@type': 'vote';
+  id: string;
+  proposalId: string; // DAOIP-2 proposal ID
+  proposalTitle: string;
+  // Choice label; a list for approval votes, label → weight for weighted and quadratic votes
+  choice: string | string[] | Record<string, number>;
+  votingPower: number;
+  createdAt: string;
+}
+
+interface SnapshotVote {
+  id: string;
+  choice: number | number[] | Record<string, number>;
+  vp: number;
+  created: number;
+  proposal: { id: string; title: string; choices: string[] } | null;
+}
+
 export async function fetchProposals(
   env: Env,
   params: { status?: string; type?: string },
@@ -124,10 +190,49 @@ export async function fetchProposalDetail(id: string, env: Env): Promise<Daoip2P
   return toProposal(raw, env.SNAPSHOT_SPACE);
 }
 
+/**
+ * Proposals an address authored and votes it cast in the space, newest first.
+ * Not cached: each profile asks about a different address.
+ */
+export async function fetchMemberSnapshotActivity(
+  address: string,
+  env: Env,
+): Promise<{ proposals: Daoip2Proposal[]; votes: MemberVote[] }> {
+  const space = env.SNAPSHOT_SPACE;
+  const data = await snapshotQuery(MEMBER_QUERY, { space, address });
+  const proposals = (data?.proposals ?? []) as SnapshotProposal[];
+  const votes = ((data?.votes ?? []) as SnapshotVote[]).filter((v) => v.proposal);
+  return {
+    proposals: proposals.map((p) => toProposal(p, space)),
+    votes: votes.map((v) => ({
+      '@type': 'vote',
+      id: v.id,
+      proposalId: `daoip-2:${space}:proposal:${v.proposal!.id}`,
+      proposalTitle: v.proposal!.title,
+      choice: choiceLabels(v.choice, v.proposal!.choices),
+      votingPower: v.vp,
+      createdAt: new Date(v.created * 1000).toISOString(),
+    })),
+  };
+}
+
+/**
+ * The DAOIP-2 activity log: proposal vote events plus membership joins and
+ * exits from the SPRB ledger. A proposal filter leaves membership entries out.
+ */
 export async function fetchActivity(
   env: Env,
   params: { member?: string; proposalId?: string },
 ): Promise<unknown[]> {
+  const [votes, membership] = await Promise.all([
+    fetchVoteActivity(env),
+    params.proposalId ? [] : fetchMembershipActivity(env, { member: params.member }),
+  ]);
+  return [...membership, ...votes];
+}
+
+/** Proposal vote events, cached in KV under 'daoip2:activity'. */
+export async function fetchVoteActivity(env: Env): Promise<unknown[]> {
   const cached = await env.GOVERNANCE_CACHE.get('daoip2:activity');
   let activity: unknown[];
 
@@ -169,6 +274,14 @@ function toProposal(p: SnapshotProposal, space: string): Daoip2Proposal {
   };
 }
 
+// Snapshot choices are 1-based indexes into the proposal's choices
+function choiceLabels(choice: SnapshotVote['choice'], choices: string[]): MemberVote['choice'] {
+  const label = (index: number | string) => choices[Number(index) - 1] ?? String(index);
+  if (typeof choice === 'number') return label(choice);
+  if (Array.isArray(choice)) return choice.map(label);
+  return Object.fromEntries(Object.entries(choice).map(([index, weight]) => [label(index), weight]));
+}
+
 async function snapshotQuery(query: string, variables: Record<string, unknown>): Promise<Record<string, unknown> | null> {
   const response = await fetch(SNAPSHOT_API, {
     method: 'POST',
@@ -1,15 +1,32 @@
 /**
  * SPRB token data source — membership via ERC-20 holder enumeration.
  *
- * SuperBenefit has ~20-25 members, so direct RPC is viable without an indexer.
- * Strategy: fetch Transfer events from the contract to build the current holder set.
+ * Holders come from the D1 balance ledger that the cron keeps current from
+ * Transfer events (see ../sprb-index.ts), so reads never scan the chain. Until
+ * the indexer's backfill first reaches the chain head, member lists hold only
+ * the blocks scanned so far and are marked incomplete, and single-address
+ * lookups omit the balance.
+ * The ledger also records when each address joined (balance rose from zero)
+ * and left (balance fell back to zero), which feeds the activity log.
  *
  * OPEN QUESTION: SPRB_CONTRACT_ADDRESS must be confirmed and set in wrangler.jsonc vars.
  *
  * Uses Cloudflare Web3 gateway (ETH_RPC_URL) — no third-party API keys required.
  */
 
-import { resolveEnsProfiles } from './ens';
+import {
+  querySprbBalance,
+  querySprbIndexState,
+  querySprbMembers,
+  querySprbMembershipEvents,
+  type SprbBalance,
+} from '../db';
+import { resolveEnsProfiles, type EnsProfile } from './ens';
+import { fetchGroups, type Group } from './groups';
+import { fetchRoleDescendants, type Hat } from './hats';
+
+// ERC-20 Transfer(address indexed from, address indexed to, uint256 value)
+export const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
 
 export interface Member {
   /** CAIP-10 address: eip155:1:<address> */
@@ -19,110 +36,207 @@ export interface Member {
   avatar?: string;
   url?: string;
   description?: string;
+  balance?: string;   // SPRB base units (18 decimals), decimal string
+  joinedAt?: string;  // block time of the first transfer that gave the address SPRB
+  leftAt?: string;    // block time of the exit, for former members only
+  roles?: MemberRole[];   // with a role or group filter: the hats that matched
+  groups?: MemberGroup[]; // with a group filter: the groups that matched
+}
+
+export interface MemberRole {
+  id: string;
+  prettyId: string;
+  details: string;
+}
+
+export interface MemberGroup {
+  id: string;
+  name: string;
+}
+
+export interface MembershipActivity {
+  '@type': 'activity';
+  id: string;
+  type: 'join' | 'exit';
+  member: { '@type': 'EthereumAddress'; id: string };
+  timestamp?: string;
+  blockNumber: number;
+  transactionHash: string;
 }
 
-export interface MembersPayload {
+export interface LedgerStatus {
+  complete: boolean; // false during the SPRB index backfill: members hold only the blocks scanned so far
+  indexedThroughBlock: number | null; // last block the SPRB index has scanned
+}
+
+export interface MembersPayload extends LedgerStatus {
   '@context': string;
   '@type': string;
   members: Member[];
 }
 
 /**
- * Fetch current SPRB holders via eth_getLogs (Transfer events).
- * Returns deduplicated set of addresses with non-zero balance.
+ * Current SPRB holders (addresses with a non-zero balance in the ledger).
+ * `includeFormer` adds everyone who has held SPRB, read from D1 rather than the cache.
  */
-export async function fetchMembers(env: Env, params?: { role?: string; group?: string }): Promise<Member[]> {
-  const cached = await env.GOVERNANCE_CACHE.get('daoip2:members');
+export async function fetchMembers(
+  env: Env,
+  params?: { role?: string; group?: string; includeFormer?: boolean },
+): Promise<Member[]> {
   let members: Member[];
+  // The KV cache holds current members only; former members come straight from the ledger
+  const cached = params?.includeFormer ? null : await env.GOVERNANCE_CACHE.get('daoip2:members');
+  // A partial list from the backfill is not reused, so reads catch up as soon as the index does
+  const payload = cached ? JSON.parse(cached) as Partial<MembersPayload> : null;
 
-  if (cached) {
-    const payload = JSON.parse(cached) as MembersPayload;
+  if (payload && payload.complete !== false) {
     members = payload.members ?? [];
+  } else if (params?.includeFormer) {
+    members = await fetchHoldersFromLedger(env, true);
   } else {
-    members = await fetchHoldersFromChain(env);
-    await env.GOVERNANCE_CACHE.put('daoip2:members', JSON.stringify({ members }), { expirationTtl: 30 * 60 });
+    const [holders, status] = await Promise.all([fetchHoldersFromLedger(env), fetchLedgerStatus(env)]);
+    members = holders;
+    if (status.complete) {
+      await env.GOVERNANCE_CACHE.put('daoip2:members', JSON.stringify({ members }), { expirationTtl: 30 * 60 });
+    }
   }
 
-  // TODO: filter by role (cross-reference with Hats) or group (cross-reference with groups)
-  // These filters require joining member addresses against the roles/groups data.
-  // Implement in Phase 1.5 after core endpoints are confirmed working.
-  return members;
+  if (!params?.role && !params?.group) return members;
+  return filterByRoleAndGroup(env, members, params.role, params.group);
+}
+
+/**
+ * One address with its ENS profile and ledger entry. An address that has never
+ * held SPRB comes back with a zero balance and no join date; during the index
+ * backfill, when the ledger may still miss its transfers, with no balance.
+ */
+export async function fetchMember(address: string, env: Env): Promise<Member> {
+  const normalised = address.toLowerCase();
+  const contract = env.SPRB_CONTRACT_ADDRESS;
+  const [holder, status, profiles] = await Promise.all([
+    contract ? querySprbBalance(env.GOVERNANCE_DB, contract, normalised) : null,
+    fetchLedgerStatus(env),
+    resolveEnsProfiles([normalised], env),
+  ]);
+  const profile = profiles[normalised] ?? {};
+  if (!status.complete) {
+    return { id: `eip155:1:${normalised}`, address: normalised, ...profile };
+  }
+  return toMember(holder ?? { address: normalised, balance: '0' }, profile);
 }
 
-export async function fetchMemberDetail(addressOrEns: string, env: Env): Promise<Member | null> {
-  const members = await fetchMembers(env);
-  const normalised = addressOrEns.toLowerCase();
-  return members.find(
-    (m) => m.address.toLowerCase() === normalised || m.ensName?.toLowerCase() === normalised
-  ) ?? null;
+/**
+ * How far the SPRB index has scanned. `complete` stays false until a run first
+ * reaches the confirmed chain head; before that the ledger covers only part of
+ * the token's history.
+ */
+export async function fetchLedgerStatus(env: Env): Promise<LedgerStatus> {
+  const contract = env.SPRB_CONTRACT_ADDRESS;
+  if (!contract) return { complete: true, indexedThroughBlock: null };
+  const state = await querySprbIndexState(env.GOVERNANCE_DB, contract);
+  return { complete: state?.caughtUp ?? false, indexedThroughBlock: state?.lastBlock ?? null };
 }
 
 /**
  * Build the full DAOIP-2 members JSON-LD payload.
  * Called by the KV cache refresh and the /api/v1/members route.
  */
-export async function buildMembersPayload(env: Env): Promise<MembersPayload> {
-  const holders = await fetchHoldersFromChain(env);
+export async function buildMembersPayload(env: Env, params?: { includeFormer?: boolean }): Promise<MembersPayload> {
+  const [holders, status] = await Promise.all([fetchHoldersFromLedger(env, params?.includeFormer), fetchLedgerStatus(env)]);
   return {
     '@context': 'http://www.daostar.org/schemas',
     '@type': 'DAO',
     members: holders,
+    ...status,
   };
 }
 
-async function fetchHoldersFromChain(env: Env): Promise<Member[]> {
+/**
+ * Join and exit entries for the DAOIP-2 activity log, newest first.
+ */
+export async function fetchMembershipActivity(env: Env, params?: { member?: string }): Promise<MembershipActivity[]> {
+  if (!env.SPRB_CONTRACT_ADDRESS) return [];
+  // Accept a CAIP-10 member ID as well as a bare address
+  const address = params?.member?.replace(/^eip155:\d+:/, '');
+  const events = await querySprbMembershipEvents(env.GOVERNANCE_DB, env.SPRB_CONTRACT_ADDRESS, { address });
+  return events.map((e) => ({
+    '@type': 'activity',
+    id: `${e.txHash}:${e.logIndex}:${e.address}`,
+    type: e.event,
+    member: { '@type': 'EthereumAddress', id: `eip155:1:${e.address}` },
+    timestamp: e.timestamp,
+    blockNumber: e.blockNumber,
+    transactionHash: e.txHash,
+  }));
+}
+
+/**
+ * Keep the members wearing the role's hat or a hat below it, and those in the
+ * group (wearing one of its linkedHats or a hat below those). Both filters
+ * must match when both are given. Each member is annotated with what matched.
+ */
+async function filterByRoleAndGroup(env: Env, members: Member[], role?: string, group?: string): Promise<Member[]> {
+  const [roleHats, groups] = await Promise.all([
+    role ? fetchRoleDescendants(role, env) : null,
+    group ? fetchGroups(env, { id: group }) : null,
+  ]);
+  const groupHats = groups && await Promise.all(groups.map(async (g): Promise<[Group, Hat[]]> => [
+    g,
+    (await Promise.all((g.linkedHats ?? []).map((hatId) => fetchRoleDescendants(hatId, env)))).flat(),
+  ]));
+
+  return members.flatMap((member) => {
+    const address = member.address.toLowerCase();
+    const worn = (hats: Hat[]) => hats.filter((hat) => hat.wearers.some((w) => w.address.toLowerCase() === address));
+
+    const roleMatches = roleHats ? worn(roleHats) : [];
+    const groupMatches = (groupHats ?? []).map(([g, hats]) => [g, worn(hats)] as const).filter(([, hats]) => hats.length > 0);
+    if (roleHats && roleMatches.length === 0) return [];
+    if (groupHats && groupMatches.length === 0) return [];
+
+    const matchedHats = [...roleMatches, ...groupMatches.flatMap(([, hats]) => hats)];
+    const roles = matchedHats
+      .filter((hat, i) => matchedHats.findIndex((h) => h.id === hat.id) === i)
+      .map(({ id, prettyId, details }) => ({ id, prettyId, details }));
+    return [{
+      ...member,
+      roles,
+      ...(groupHats ? { groups: groupMatches.map(([g]) => ({ id: g.id, name: g.name })) } : {}),
+    }];
+  });
+}
+
+async function fetchHoldersFromLedger(env: Env, includeFormer = false): Promise<Member[]> {
   const contractAddress = env.SPRB_CONTRACT_ADDRESS;
   if (!contractAddress) {
     console.warn('SPRB_CONTRACT_ADDRESS not configured — returning empty member list');
     return [];
   }
 
-  // ERC-20 Transfer event topic
-  const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+  const holders = await querySprbMembers(env.GOVERNANCE_DB, contractAddress, { includeFormer });
 
-  // Fetch all Transfer events to/from the contract
-  const logsResponse = await ethRpc(env, 'eth_getLogs', [{
-    address: contractAddress,
-    topics: [transferTopic],
-    fromBlock: '0x0',
-    toBlock: 'latest',
-  }]);
-
-  if (!Array.isArray(logsResponse)) {
-    throw new Error('Unexpected eth_getLogs response');
-  }
-
-  // Parse Transfer events and compute current holder set
-  const balances = new Map<string, bigint>();
-  for (const log of logsResponse) {
-    const from = '0x' + log.topics[1].slice(26);
-    const to = '0x' + log.topics[2].slice(26);
-    const value = BigInt(log.data);
-
-    balances.set(from, (balances.get(from) ?? 0n) - value);
-    balances.set(to, (balances.get(to) ?? 0n) + value);
-  }
+  // Resolve ENS profiles in parallel
+  const profiles = await resolveEnsProfiles(holders.map((h) => h.address), env);
 
-  // Filter to addresses with positive balance, exclude zero address
-  const zeroAddress = '0x0000000000000000000000000000000000000000';
-  const holders = [...balances.entries()]
-    .filter(([addr, bal]) => bal > 0n && addr !== zeroAddress)
-    .map(([addr]) => addr);
+  return holders.map((holder) => toMember(holder, profiles[holder.address.toLowerCase()] ?? {}));
+}
 
-  // Resolve ENS profiles in parallel
-  const profiles = await resolveEnsProfiles(holders, env);
-
-  return holders.map((address) => {
-    const profile = profiles[address.toLowerCase()] ?? {};
-    return {
-      id: `eip155:1:${address}`,
-      address,
-      ...profile,
-    };
-  });
+function toMember(
+  holder: Pick<SprbBalance, 'address' | 'balance' | 'firstAcquiredAt' | 'lastExitedAt'>,
+  profile: EnsProfile,
+): Member {
+  return {
+    id: `eip155:1:${holder.address}`,
+    address: holder.address,
+    ...profile,
+    balance: holder.balance,
+    joinedAt: holder.firstAcquiredAt,
+    leftAt: holder.balance === '0' ? holder.lastExitedAt : undefined,
+  };
 }
 
-async function ethRpc(env: Env, method: string, params: unknown[]): Promise<unknown> {
+/** JSON-RPC call against ETH_RPC_URL — shared with the SPRB indexer. */
+export async function ethRpc(env: Env, method: string, params: unknown[]): Promise<unknown> {
   const response = await fetch(env.ETH_RPC_URL, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
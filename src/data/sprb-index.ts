@@ -0,0 +1,298 @@
+/**
+ * Incremental SPRB holder index.
+ *
+ * Each cron run picks up from the last scanned block (sprb_index_state) and
+ * fetches Transfer logs for the blocks since, in bounded eth_getLogs ranges,
+ * instead of scanning the whole chain on every cache miss. Logs land in the
+ * sprb_transfers ledger. Every address they touch is replayed from the ledger
+ * into sprb_balances (balance, first join, last exit) and sprb_balance_history;
+ * the members source and activity log read from there.
+ *
+ * Only blocks at least SPRB_CONFIRMATIONS deep are scanned, so a reorg near
+ * the chain head never reaches the ledger and nothing has to be rolled back.
+ * A range the provider rejects (span or result-count limits) is retried in
+ * halves. Each range is written in one D1 batch together with the checkpoint,
+ * so an interrupted run resumes cleanly and a range scanned twice is a no-op.
+ *
+ * Point ETH_RPC_URL at a local JSON-RPC stand-in (e.g. anvil or hardhat) to
+ * run it in development; it uses eth_blockNumber, eth_getLogs and
+ * eth_getBlockByNumber.
+ */
+
+import { ethRpc, TRANSFER_TOPIC } from './sources/sprb';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const DEFAULT_CONFIRMATIONS = 12;
+const DEFAULT_BLOCK_RANGE = 2000;
+// Bounds the work per cron run; a long backfill continues on the next run
+const MAX_RANGES_PER_RUN = 25;
+
+export interface SprbIndexRun {
+  contract: string;
+  fromBlock: number;
+  toBlock: number; // last block scanned this run (fromBlock - 1 when nothing was due)
+  transfers: number;
+  caughtUp: boolean; // reached the confirmed head
+}
+
+interface TransferLog {
+  blockNumber: string;
+  logIndex: string;
+  transactionHash: string;
+  topics: string[];
+  data: string;
+  blockTimestamp?: string; // returned by some providers, saving a block lookup
+}
+
+interface Transfer {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  from: string;
+  to: string;
+  value: bigint;
+  blockTimestamp: string | null;
+}
+
+/**
+ * Scan new confirmed blocks for SPRB transfers. Returns null when
+ * SPRB_CONTRACT_ADDRESS is not configured, and throws when SPRB_START_BLOCK
+ * is not — a scan from genesis would take days to reach the head.
+ */
+export async function indexSprbTransfers(env: Env): Promise<SprbIndexRun | null> {
+  if (!env.SPRB_CONTRACT_ADDRESS) {
+    console.warn('SPRB_CONTRACT_ADDRESS not configured — skipping SPRB index');
+    return null;
+  }
+  const startBlock = parseInt(env.SPRB_START_BLOCK ?? '', 10);
+  if (Number.isNaN(startBlock) || startBlock < 0) {
+    throw new Error('SPRB_START_BLOCK must be set to the SPRB token\'s deployment block');
+  }
+  const contract = env.SPRB_CONTRACT_ADDRESS.toLowerCase();
+  const confirmations = intVar(env.SPRB_CONFIRMATIONS, DEFAULT_CONFIRMATIONS);
+  let blockRange = Math.max(1, intVar(env.SPRB_BLOCK_RANGE, DEFAULT_BLOCK_RANGE));
+
+  const head = Number(BigInt(await ethRpc(env, 'eth_blockNumber', []) as string));
+  const confirmedHead = head - confirmations;
+
+  const state = await env.GOVERNANCE_DB
+    .prepare('SELECT last_block AS lastBlock FROM sprb_index_state WHERE contract = ?')
+    .bind(contract)
+    .first<{ lastBlock: number }>();
+  const fromBlock = state ? state.lastBlock + 1 : startBlock;
+
+  let next = fromBlock;
+  let transfers = 0;
+  for (let ranges = 0; next <= confirmedHead && ranges < MAX_RANGES_PER_RUN; ranges++) {
+    const to = Math.min(next + blockRange - 1, confirmedHead);
+    let logs: TransferLog[];
+    try {
+      logs = await fetchTransferLogs(env, contract, next, to);
+    } catch (err) {
+      if (to === next) throw err;
+      blockRange = Math.ceil((to - next + 1) / 2);
+      console.warn(`eth_getLogs ${next}–${to} failed, retrying in ranges of ${blockRange} blocks:`, err);
+      continue;
+    }
+    await storeRange(env, contract, to, to === confirmedHead, await toTransfers(env, logs));
+    transfers += logs.length;
+    next = to + 1;
+  }
+
+  return { contract, fromBlock, toBlock: next - 1, transfers, caughtUp: next > confirmedHead };
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+async function fetchTransferLogs(env: Env, contract: string, fromBlock: number, toBlock: number): Promise<TransferLog[]> {
+  const logs = await ethRpc(env, 'eth_getLogs', [{
+    address: contract,
+    topics: [TRANSFER_TOPIC],
+    fromBlock: toHex(fromBlock),
+    toBlock: toHex(toBlock),
+  }]);
+  if (!Array.isArray(logs)) throw new Error('Unexpected eth_getLogs response');
+  return logs as TransferLog[];
+}
+
+/** Decode logs, looking up the timestamp of each block the provider did not stamp. */
+async function toTransfers(env: Env, logs: TransferLog[]): Promise<Transfer[]> {
+  const unstamped = [...new Set(logs.filter((log) => !log.blockTimestamp).map((log) => log.blockNumber))];
+  const timestamps = new Map<string, string>();
+  await Promise.all(unstamped.map(async (blockNumber) => {
+    const block = await ethRpc(env, 'eth_getBlockByNumber', [blockNumber, false]) as { timestamp?: string } | null;
+    if (block?.timestamp) timestamps.set(blockNumber, block.timestamp);
+  }));
+
+  return logs.map((log) => {
+    const timestamp = log.blockTimestamp ?? timestamps.get(log.blockNumber);
+    return {
+      blockNumber: Number(BigInt(log.blockNumber)),
+      logIndex: Number(BigInt(log.logIndex)),
+      txHash: log.transactionHash,
+      from: topicAddress(log.topics[1]),
+      to: topicAddress(log.topics[2]),
+      value: BigInt(log.data),
+      blockTimestamp: timestamp ? new Date(Number(BigInt(timestamp)) * 1000).toISOString() : null,
+    };
+  });
+}
+
+/**
+ * Write one scanned range: its transfers, the recomputed balance and lifecycle
+ * of every address they touch, their balance history entries, and the
+ * checkpoint — in a single batch. `caughtUp` marks the range ending at the
+ * confirmed head; once set, readers trust the ledger.
+ */
+async function storeRange(
+  env: Env,
+  contract: string,
+  toBlock: number,
+  caughtUp: boolean,
+  transfers: Transfer[],
+): Promise<void> {
+  const db = env.GOVERNANCE_DB;
+  const statements: D1PreparedStatement[] = [];
+
+  if (transfers.length > 0) {
+    const touched = [...new Set(transfers.flatMap((t) => [t.from, t.to]))].filter((a) => a !== ZERO_ADDRESS);
+
+    // Earlier history of the touched addresses, plus this range (minus any rows already stored, on a rescan)
+    const stored = await db
+      .prepare(`
+        SELECT block_number AS blockNumber, log_index AS logIndex, from_address AS "from", to_address AS "to",
+               value, block_timestamp AS blockTimestamp
+        FROM sprb_transfers
+        WHERE contract = ?1
+          AND (from_address IN (SELECT value FROM json_each(?2)) OR to_address IN (SELECT value FROM json_each(?2)))
+      `)
+      .bind(contract, JSON.stringify(touched))
+      .all<LedgerRow>();
+    const ledger = new Map((stored.results ?? []).map((t) => [`${t.blockNumber}:${t.logIndex}`, t]));
+    for (const t of transfers) {
+      ledger.set(`${t.blockNumber}:${t.logIndex}`, { ...t, value: t.value.toString() });
+    }
+    const ordered = [...ledger.values()].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    const inRange = new Set(transfers.map((t) => `${t.blockNumber}:${t.logIndex}`));
+
+    for (const t of transfers) {
+      statements.push(db
+        .prepare(`
+          INSERT OR IGNORE INTO sprb_transfers
+            (contract, block_number, log_index, tx_hash, from_address, to_address, value, block_timestamp)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .bind(contract, t.blockNumber, t.logIndex, t.txHash, t.from, t.to, t.value.toString(), t.blockTimestamp));
+    }
+
+    for (const address of touched) {
+      const lifecycle = replay(address, ordered);
+      statements.push(db
+        .prepare(`
+          INSERT INTO sprb_balances
+            (contract, address, balance, updated_block,
+             first_acquired_block, first_acquired_at, last_exited_block, last_exited_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (contract, address) DO UPDATE SET
+            balance = excluded.balance,
+            updated_block = excluded.updated_block,
+            first_acquired_block = excluded.first_acquired_block,
+            first_acquired_at = excluded.first_acquired_at,
+            last_exited_block = excluded.last_exited_block,
+            last_exited_at = excluded.last_exited_at
+        `)
+        .bind(
+          contract, address, lifecycle.balance.toString(), toBlock,
+          lifecycle.firstAcquired?.blockNumber ?? null, lifecycle.firstAcquired?.blockTimestamp ?? null,
+          lifecycle.lastExited?.blockNumber ?? null, lifecycle.lastExited?.blockTimestamp ?? null,
+        ));
+
+      // Entries before this range were written when their own range was scanned
+      for (const entry of lifecycle.history.filter((h) => inRange.has(`${h.blockNumber}:${h.logIndex}`))) {
+        statements.push(db
+          .prepare(`
+            INSERT OR REPLACE INTO sprb_balance_history
+              (contract, address, block_number, log_index, balance, event, block_timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+          `)
+          .bind(contract, address, entry.blockNumber, entry.logIndex, entry.balance, entry.event, entry.blockTimestamp));
+      }
+    }
+  }
+
+  statements.push(db
+    .prepare(`
+      INSERT INTO sprb_index_state (contract, last_block, caught_up, updated_at) VALUES (?, ?, ?, datetime('now'))
+      ON CONFLICT (contract) DO UPDATE SET
+        last_block = excluded.last_block,
+        caught_up = MAX(caught_up, excluded.caught_up),
+        updated_at = excluded.updated_at
+    `)
+    .bind(contract, toBlock, caughtUp ? 1 : 0));
+
+  await db.batch(statements);
+}
+
+interface LedgerRow {
+  blockNumber: number;
+  logIndex: number;
+  from: string;
+  to: string;
+  value: string;
+  blockTimestamp: string | null;
+}
+
+interface HistoryEntry {
+  blockNumber: number;
+  logIndex: number;
+  balance: string;
+  event: 'join' | 'exit' | null;
+  blockTimestamp: string | null;
+}
+
+/**
+ * Replay an address's transfers in chain order: its balance, the transfer that
+ * first made it a member, the one that most recently ended its membership, and
+ * its balance after every transfer.
+ */
+function replay(address: string, ordered: LedgerRow[]) {
+  let balance = 0n;
+  let firstAcquired: LedgerRow | null = null;
+  let lastExited: LedgerRow | null = null;
+  const history: HistoryEntry[] = [];
+
+  for (const t of ordered) {
+    if (t.from !== address && t.to !== address) continue;
+    const before = balance;
+    if (t.from === address) balance -= BigInt(t.value);
+    if (t.to === address) balance += BigInt(t.value);
+
+    let event: HistoryEntry['event'] = null;
+    if (before <= 0n && balance > 0n) {
+      event = 'join';
+      firstAcquired ??= t;
+    } else if (before > 0n && balance <= 0n) {
+      event = 'exit';
+      lastExited = t;
+    }
+    history.push({ ...t, balance: balance.toString(), event });
+  }
+
+  return { balance, firstAcquired, lastExited, history };
+}
+
+function topicAddress(topic: string): string {
+  return ('0x' + topic.slice(26)).toLowerCase();
+}
+
+function toHex(n: number): string {
+  return '0x' + n.toString(16);
+}
+
+function intVar(value: string | undefined, fallback: number): number {
+  const n = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(n) || n < 0 ? fallback : n;
+}
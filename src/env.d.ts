@@ -16,6 +16,7 @@ interface Env {
 
   // Workflows
   GOVERNANCE_SYNC: Workflow;       // GitHub → R2 + D1 sync pipeline
+  GOVERNANCE_RECONCILE: Workflow;  // Full-tree reconcile of R2 + D1 against the repo
 
   // Rate limiter
   RATE_LIMITER: RateLimit;
@@ -30,7 +31,12 @@ interface Env {
   SNAPSHOT_SPACE: string;
   SB_ENS_NAME: string;
   SPRB_CONTRACT_ADDRESS: string;
+  SPRB_START_BLOCK?: string;       // First block the SPRB indexer scans (the token's deployment block); required with SPRB_CONTRACT_ADDRESS
+  SPRB_CONFIRMATIONS?: string;     // Blocks behind the head the indexer stays, for reorg safety; default 12
+  SPRB_BLOCK_RANGE?: string;       // Blocks per eth_getLogs call; default 2000, halved when the provider rejects a range
   HATS_TREE_ID: string;
   GOVERNANCE_REPO: string;
+  GITHUB_API_URL?: string;         // GitHub REST API base; override with a local stand-in in tests
   KNOWLEDGE_BASE_REPO: string;
+  SYNC_BRANCHES?: string;          // Preview branches synced beside main, comma-separated globs e.g. "staging,proposal/*"
 }
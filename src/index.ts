@@ -3,7 +3,7 @@
  *
  * Extends WorkerEntrypoint to provide:
  * - HTTP routing: /dao.json, /api/v1/*, /mcp, /webhook, /internal/*
- * - Cron trigger for KV cache refresh (Hats, SPRB, Snapshot, ENS)
+ * - Cron trigger for SPRB transfer indexing and KV cache refresh (Hats, SPRB, Snapshot, ENS)
  * - RPC methods for inter-Worker service binding calls
  *
  * Phase 1: No authentication. All endpoints are Open tier.
@@ -20,6 +20,11 @@ import { api } from './api/app';
 import { createMcpServer } from './mcp/server';
 import { verifyWebhookSignature } from './sync/github';
 import { runCacheRefresh } from './data/kv-cache';
+import { indexSprbTransfers } from './data/sprb-index';
+import { scheduleReconcileIfDue } from './sync/reconcile';
+import { validatePullRequest } from './sync/validate';
+import { MAIN_REF, isSyncedRef } from './sync/refs';
+import { DOMAINS_FILE } from './sync/parser';
 // Security headers applied to all non-Hono responses (MCP handler, rate limit errors).
 // Inlined from mcporch/src/security.ts — no porch dependency needed for a read-only server.
 const SECURITY_HEADERS: Record<string, string> = {
@@ -32,10 +37,14 @@ const SECURITY_HEADERS: Record<string, string> = {
   'Strict-Transport-Security': 'max-age=63072000; includeSubDomains; preload',
   'Content-Security-Policy': "default-src 'none'",
 };
-import type { GitHubPushEvent } from './types/sync';
+import type { GitHubPushEvent, GitHubPullRequestEvent } from './types/sync';
 
-// Re-export workflow so Cloudflare can discover it via wrangler.jsonc class_name
+// pull_request actions that change the head commit under review
+const VALIDATED_PR_ACTIONS = ['opened', 'synchronize', 'reopened', 'ready_for_review'];
+
+// Re-export workflows so Cloudflare can discover them via wrangler.jsonc class_name
 export { GovernanceSyncWorkflow } from './sync/workflow';
+export { GovernanceReconcileWorkflow } from './sync/reconcile';
 
 // ---------------------------------------------------------------------------
 // Hono app — mounts public REST API
@@ -155,7 +164,7 @@ export default class GovernanceServer extends WorkerEntrypoint<Env> {
       return securedResponse;
     }
 
-    // GitHub webhook — governance repo push events
+    // GitHub webhook — governance repo push and pull_request events
     if (url.pathname === '/webhook' && request.method === 'POST') {
       return this.handleWebhook(request);
     }
@@ -165,16 +174,25 @@ export default class GovernanceServer extends WorkerEntrypoint<Env> {
       return this.handleInternalRefresh(request);
     }
 
+    // Internal resync — full-tree reconcile, protected by INTERNAL_REFRESH_SECRET
+    if (url.pathname === '/internal/resync' && request.method === 'POST') {
+      return this.handleInternalResync(request);
+    }
+
     // Everything else through Hono (REST API)
     return app.fetch(request, this.env, this.ctx);
   }
 
   /**
-   * Cron trigger — refresh KV cache from external sources.
-   * A single 15-min cron gates each source by its own last-run timestamp.
+   * Cron trigger — index new SPRB transfers, refresh KV cache from external
+   * sources and start the daily governance repo reconcile.
+   * A single 15-min cron gates each job by its own last-run timestamp.
    */
   async scheduled(event: ScheduledEvent): Promise<void> {
+    // Before the cache refresh, so a members rebuild sees the latest balances
+    await indexSprbTransfers(this.env).catch((err) => console.error('SPRB index run failed:', err));
     await runCacheRefresh(this.env);
+    await scheduleReconcileIfDue(this.env);
   }
 
   // -------------------------------------------------------------------------
@@ -200,15 +218,38 @@ export default class GovernanceServer extends WorkerEntrypoint<Env> {
       await this.env.SYNC_STATE.put(nonceKey, Date.now().toString(), { expirationTtl: 86400 });
     }
 
+    const event = request.headers.get('x-github-event') ?? 'push';
+    if (event === 'ping') {
+      return Response.json({ status: 'ok', event });
+    }
+    if (event === 'pull_request') {
+      return this.handlePullRequest(JSON.parse(body) as GitHubPullRequestEvent, new URL(request.url).origin);
+    }
+    if (event !== 'push') {
+      return Response.json({ status: 'ignored', reason: `unsupported event ${event}` });
+    }
+
     const payload: GitHubPushEvent = JSON.parse(body);
 
-    if (payload.ref !== 'refs/heads/main') {
-      return Response.json({ status: 'ignored', reason: 'not main branch' });
+    const branch = payload.ref.replace(/^refs\/heads\//, '');
+    if (branch === payload.ref || !isSyncedRef(branch, this.env)) {
+      return Response.json({ status: 'ignored', reason: 'branch not synced' });
+    }
+    if (payload.deleted) {
+      return Response.json({ status: 'ignored', reason: 'branch deleted' });
+    }
+
+    // A new preview branch has no namespace yet — populate it from the full tree
+    if (payload.created && branch !== MAIN_REF) {
+      const instance = await this.env.GOVERNANCE_RECONCILE.create({
+        params: { commitSha: payload.after, ref: branch, trigger: 'push' },
+      });
+      return Response.json({ status: 'ok', ref: branch, instanceId: instance.id });
     }
 
     const changedFiles = payload.commits
       .flatMap((c) => [...c.added, ...c.modified])
-      .filter((f) => f.endsWith('.md'));
+      .filter((f) => f.endsWith('.md') || f === DOMAINS_FILE);
     const deletedFiles = payload.commits
       .flatMap((c) => c.removed)
       .filter((f) => f.endsWith('.md'));
@@ -217,16 +258,44 @@ export default class GovernanceServer extends WorkerEntrypoint<Env> {
     const uniqueDeleted = [...new Set(deletedFiles)];
 
     if (uniqueChanged.length === 0 && uniqueDeleted.length === 0) {
-      return Response.json({ status: 'ignored', reason: 'no markdown files changed' });
+      return Response.json({ status: 'ignored', reason: 'no governance files changed' });
     }
 
     this.ctx.waitUntil(
       this.env.GOVERNANCE_SYNC.create({
-        params: { changedFiles: uniqueChanged, deletedFiles: uniqueDeleted, commitSha: payload.after },
+        params: {
+          changedFiles: uniqueChanged,
+          deletedFiles: uniqueDeleted,
+          commitSha: payload.after,
+          previousCommitSha: payload.before,
+          ref: branch,
+          committedAt: payload.head_commit?.timestamp,
+        },
       })
     );
 
-    return Response.json({ status: 'ok', changed: uniqueChanged.length, deleted: uniqueDeleted.length });
+    return Response.json({ status: 'ok', ref: branch, changed: uniqueChanged.length, deleted: uniqueDeleted.length });
+  }
+
+  /**
+   * Dry-run validation of a PR's head commit — writes nothing to R2 or D1,
+   * reports back as a commit status (see ./sync/validate.ts).
+   */
+  private handlePullRequest(payload: GitHubPullRequestEvent, origin: string): Response {
+    if (!VALIDATED_PR_ACTIONS.includes(payload.action)) {
+      return Response.json({ status: 'ignored', reason: `pull_request action ${payload.action}` });
+    }
+    if (payload.pull_request.base.ref !== 'main') {
+      return Response.json({ status: 'ignored', reason: 'not targeting main branch' });
+    }
+
+    const commitSha = payload.pull_request.head.sha;
+    this.ctx.waitUntil(
+      validatePullRequest(this.env, { pullRequest: payload.number, commitSha, reportOrigin: origin })
+        .catch((err) => console.error(`Validation of PR #${payload.number} failed:`, err))
+    );
+
+    return Response.json({ status: 'ok', pullRequest: payload.number, commitSha });
   }
 
   // -------------------------------------------------------------------------
@@ -242,12 +311,36 @@ export default class GovernanceServer extends WorkerEntrypoint<Env> {
     return Response.json({ status: 'ok', refreshed: new Date().toISOString() });
   }
 
+  // -------------------------------------------------------------------------
+  // Internal resync endpoint — full-tree reconcile of R2 + D1
+  // -------------------------------------------------------------------------
+
+  private async handleInternalResync(request: Request): Promise<Response> {
+    const secret = request.headers.get('x-refresh-secret');
+    if (secret !== this.env.INTERNAL_REFRESH_SECRET) {
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    // Optional body: { "commitSha": "<sha>", "force": true, "ref": "staging" } — defaults to head of main, hash-skipping on
+    const body = await request
+      .json<{ commitSha?: string; force?: boolean; ref?: string }>()
+      .catch(() => ({} as { commitSha?: string; force?: boolean; ref?: string }));
+    const ref = body.ref ?? MAIN_REF;
+    if (!isSyncedRef(ref, this.env)) {
+      return Response.json({ error: `ref ${ref} is not main or a branch in SYNC_BRANCHES` }, { status: 400 });
+    }
+    const instance = await this.env.GOVERNANCE_RECONCILE.create({
+      params: { commitSha: body.commitSha, force: body.force === true, ref, trigger: 'resync' },
+    });
+    return Response.json({ status: 'ok', instanceId: instance.id });
+  }
+
   // -------------------------------------------------------------------------
   // RPC methods — callable via service bindings from other Workers
   // -------------------------------------------------------------------------
 
-  /** Get current member list with optional role/group filters. */
-  async getMembers(params?: { role?: string; group?: string }) {
+  /** Get current member list with optional role/group filters; includeFormer adds past members. */
+  async getMembers(params?: { role?: string; group?: string; includeFormer?: boolean }) {
     const { fetchMembers } = await import('./data/sources/sprb');
     return fetchMembers(this.env, params);
   }
@@ -264,15 +357,27 @@ export default class GovernanceServer extends WorkerEntrypoint<Env> {
     return fetchGroups(this.env, params);
   }
 
-  /** Get agreements with optional domain filter. */
-  async getAgreements(params?: { domain?: string }) {
+  /** Get agreements with optional domain filter. `ref` selects a preview branch namespace. */
+  async getAgreements(params?: { domain?: string; ref?: string }) {
     const { queryAgreements } = await import('./data/db');
-    return queryAgreements(this.env.GOVERNANCE_DB, params);
+    return queryAgreements(this.env.GOVERNANCE_DB, params ?? {});
   }
 
-  /** Get policies with optional domain filter. */
-  async getPolicies(params?: { domain?: string; agreementId?: string }) {
+  /** Get policies with optional domain filter. `ref` selects a preview branch namespace. */
+  async getPolicies(params?: { domain?: string; agreementId?: string; ref?: string }) {
     const { queryPolicies } = await import('./data/db');
-    return queryPolicies(this.env.GOVERNANCE_DB, params);
+    return queryPolicies(this.env.GOVERNANCE_DB, params ?? {});
+  }
+
+  /** Get documents of any type and status, optionally filtered and searched (see DocumentQuery). */
+  async getDocuments(params?: {
+    type?: 'agreement' | 'policy' | 'proposal' | 'other';
+    status?: Array<'draft' | 'active' | 'superseded' | 'retired'>;
+    domain?: string;
+    q?: string;
+    ref?: string;
+  }) {
+    const { queryDocuments } = await import('./data/db');
+    return queryDocuments(this.env.GOVERNANCE_DB, params ?? {});
   }
 }
\ No newline at end of file
@@ -19,7 +19,7 @@ export function registerResources(server: McpServer, env: Env): void {
   });
 
   server.resource('governance://roles', 'Full Hats Protocol role tree', async () => {
-    const roles = await getCachedValue(env, 'sb:roles');
+    const roles = await getCachedValue(env, 'sb:roles:v2');
     return { contents: [{ uri: 'governance://roles', mimeType: 'application/json', text: roles ?? '[]' }] };
   });
 
@@ -8,19 +8,27 @@ import { z } from 'zod';
 import { resolveAuthContext } from '../../auth/resolve';
 import { requireTier } from '../../auth/check';
 import { queryAgreements, queryAgreementDetail } from '../../data/db';
+import { resolveRef } from '../../sync/refs';
 
 export function registerAgreementTools(server: McpServer, env: Env): void {
   server.tool(
     'list_agreements',
-    'Returns all SuperBenefit agreements with optional domain filter.',
+    'Returns SuperBenefit agreements — active ones unless other statuses are requested — with optional domain filter.',
     {
       domain: z.string().optional().describe('Domain slug to filter by'),
+      status: z.array(z.enum(['draft', 'active', 'superseded', 'retired'])).optional()
+        .describe('Statuses to include (default active only)'),
+      ref: z.string().optional().describe('Preview branch to read instead of main (one of SYNC_BRANCHES)'),
     },
     async (args, { meta }) => {
       const auth = await resolveAuthContext(meta?.request as Request, env);
       requireTier(auth, 'open');
 
-      const agreements = await queryAgreements(env.GOVERNANCE_DB, args);
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const agreements = await queryAgreements(env.GOVERNANCE_DB, { ...args, ref });
       return { content: [{ type: 'text', text: JSON.stringify(agreements, null, 2) }] };
     },
   );
@@ -30,12 +38,17 @@ export function registerAgreementTools(server: McpServer, env: Env): void {
     'Returns detail for a specific agreement, including its related policies and governance domain.',
     {
       id: z.string().describe('Agreement slug or ID'),
+      ref: z.string().optional().describe('Preview branch to read instead of main (one of SYNC_BRANCHES)'),
     },
     async (args, { meta }) => {
       const auth = await resolveAuthContext(meta?.request as Request, env);
       requireTier(auth, 'open');
 
-      const agreement = await queryAgreementDetail(env.GOVERNANCE_DB, args.id);
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const agreement = await queryAgreementDetail(env.GOVERNANCE_DB, args.id, ref);
       if (!agreement) {
         return { content: [{ type: 'text', text: `Agreement ${args.id} not found` }], isError: true };
       }
@@ -0,0 +1,118 @@
+/**
+ * MCP tools: governance documents of every type, their authority chains, and
+ * the documents scoped to a hat, address or group (from D1).
+ * Tier: Open.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { resolveAuthContext } from '../../auth/resolve';
+import { requireTier } from '../../auth/check';
+import { queryDocuments, queryDocumentDetail } from '../../data/db';
+import { explainAuthority } from '../../data/authority';
+import { fetchScopedDocuments } from '../../data/scope';
+import { resolveRef } from '../../sync/refs';
+
+export function registerDocumentTools(server: McpServer, env: Env): void {
+  server.tool(
+    'list_documents',
+    'Returns SuperBenefit governance documents of any type (agreement, policy, proposal, other) and any status, including drafts and superseded or retired records. Optionally filtered by domain or search terms.',
+    {
+      type: z.enum(['agreement', 'policy', 'proposal', 'other']).optional().describe('Only documents of this type'),
+      status: z.array(z.enum(['draft', 'active', 'superseded', 'retired'])).optional()
+        .describe('Statuses to include (default all)'),
+      domain: z.string().optional().describe('Domain slug to filter by'),
+      q: z.string().optional().describe('Search terms; results are ranked by relevance'),
+      ref: z.string().optional().describe('Preview branch to read instead of main (one of SYNC_BRANCHES)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const documents = await queryDocuments(env.GOVERNANCE_DB, { ...args, ref });
+      if (!documents) {
+        return { content: [{ type: 'text', text: 'Search query has no searchable terms' }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(documents, null, 2) }] };
+    },
+  );
+
+  server.tool(
+    'get_document',
+    'Returns detail for any governance document — domains, relationships and scope — whatever its type or status.',
+    {
+      id: z.string().describe('Document slug or ID'),
+      ref: z.string().optional().describe('Preview branch to read instead of main (one of SYNC_BRANCHES)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const document = await queryDocumentDetail(env.GOVERNANCE_DB, args.id, ref);
+      if (!document) {
+        return { content: [{ type: 'text', text: `Document ${args.id} not found` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(document, null, 2) }] };
+    },
+  );
+
+  server.tool(
+    'get_governing_documents',
+    'Returns the governance documents whose scope names a hat, member address or group — e.g. the rules that apply to a role — each with its scope relation (governs, governed_by, party, signatory).',
+    {
+      entityType: z.enum(['hat', 'address', 'group']).describe('Kind of entity'),
+      entityId: z.string().describe('Hat ID (hex or pretty), Ethereum address, or group slug'),
+      relation: z.enum(['governs', 'governed_by', 'party', 'signatory']).optional()
+        .describe('Only documents with this scope relation'),
+      status: z.array(z.enum(['draft', 'active', 'superseded', 'retired'])).optional()
+        .describe('Statuses to include (default active)'),
+      ref: z.string().optional().describe('Preview branch to read instead of main (one of SYNC_BRANCHES)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const documents = await fetchScopedDocuments(env, args.entityType, args.entityId, {
+        relation: args.relation,
+        status: args.status,
+        ref,
+      });
+      return { content: [{ type: 'text', text: JSON.stringify(documents, null, 2) }] };
+    },
+  );
+
+  server.tool(
+    'explain_authority',
+    'Explains under what authority a policy, agreement or other document exists: follows its authorized_by, implements and supersedes relationships up to the root agreements, showing at each step the Snapshot proposal that enacted the document, its outcome and voting dates.',
+    {
+      id: z.string().describe('Document slug or ID'),
+      ref: z.string().optional().describe('Preview branch to read instead of main (one of SYNC_BRANCHES)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const authority = await explainAuthority(env, args.id, ref);
+      if (!authority) {
+        return { content: [{ type: 'text', text: `Document ${args.id} not found` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(authority, null, 2) }] };
+    },
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * MCP tools: governance domains and who can decide in them (from D1, hats from the Hats subgraph).
+ * Tier: Open.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { resolveAuthContext } from '../../auth/resolve';
+import { requireTier } from '../../auth/check';
+import { queryDomains, queryDomainTree, queryDomainDetail } from '../../data/db';
+import { whoCanDecide } from '../../data/deciders';
+import { fetchRoleDetail } from '../../data/sources/hats';
+import { resolveRef } from '../../sync/refs';
+
+export function registerDomainTools(server: McpServer, env: Env): void {
+  server.tool(
+    'list_domains',
+    'Returns SuperBenefit governance domains on both axes: organisational scope (entity, trust_zone) and subject matter (governance_function). Use tree to see how domains nest.',
+    {
+      type: z.enum(['entity', 'trust_zone', 'governance_function']).optional().describe('Only domains on this axis'),
+      tree: z.boolean().optional().describe('Nest child domains under their parents (default false)'),
+      includeRemoved: z.boolean().optional().describe('Include domains no longer listed in domains.yml (default false)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const domains = args.tree
+        ? await queryDomainTree(env.GOVERNANCE_DB, args)
+        : await queryDomains(env.GOVERNANCE_DB, args);
+      return { content: [{ type: 'text', text: JSON.stringify(domains, null, 2) }] };
+    },
+  );
+
+  server.tool(
+    'get_domain',
+    'Returns a governance domain with its parent and child domains, the Hats role linked to it, and the documents tagged with it — every status, including drafts and superseded or retired records, unless status narrows them.',
+    {
+      slug: z.string().describe('Domain slug or ID, e.g. "treasury"'),
+      status: z.array(z.enum(['draft', 'active', 'superseded', 'retired'])).optional()
+        .describe('Statuses of documents to include (default all)'),
+      ref: z.string().optional().describe('Preview branch to read documents from instead of main (one of SYNC_BRANCHES)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const domain = await queryDomainDetail(env.GOVERNANCE_DB, args.slug, { ref, status: args.status });
+      if (!domain) {
+        return { content: [{ type: 'text', text: `Domain ${args.slug} not found` }], isError: true };
+      }
+      const hat = domain.hatId
+        ? await fetchRoleDetail(domain.hatId, env).catch((err) => {
+          console.error(`Could not resolve hat ${domain.hatId} for domain ${domain.slug}:`, err);
+          return null;
+        })
+        : null;
+      return { content: [{ type: 'text', text: JSON.stringify({ ...domain, hat }, null, 2) }] };
+    },
+  );
+
+  server.tool(
+    'who_can_decide',
+    'Answers "who can decide this?" for a governance domain or a free-text topic (e.g. "treasury spending"): the Hats role responsible, its current wearers with ENS names, the admin hats above it that can override, and the active policies that define the decision process. A topic may match several domains.',
+    {
+      query: z.string().describe('Domain slug (e.g. "treasury") or a free-text topic'),
+      ref: z.string().optional().describe('Preview branch to read policies from instead of main (one of SYNC_BRANCHES)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const lookup = await whoCanDecide(env, args.query, ref);
+      if (lookup.results.length === 0) {
+        return { content: [{ type: 'text', text: `No domain matches ${args.query}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(lookup, null, 2) }] };
+    },
+  );
+}
@@ -11,6 +11,10 @@ import { registerGroupTools } from './groups';
 import { registerProposalTools } from './proposals';
 import { registerAgreementTools } from './agreements';
 import { registerPolicyTools } from './policies';
+import { registerDocumentTools } from './documents';
+import { registerDomainTools } from './domains';
+import { registerSearchTools } from './search';
+import { registerSyncTools } from './sync';
 
 export function registerTools(server: McpServer, env: Env): void {
   registerDaoTools(server, env);
@@ -20,4 +24,8 @@ export function registerTools(server: McpServer, env: Env): void {
   registerProposalTools(server, env);
   registerAgreementTools(server, env);
   registerPolicyTools(server, env);
+  registerDocumentTools(server, env);
+  registerDomainTools(server, env);
+  registerSearchTools(server, env);
+  registerSyncTools(server, env);
 }
@@ -7,30 +7,36 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { resolveAuthContext } from '../../auth/resolve';
 import { requireTier } from '../../auth/check';
-import { fetchMembers } from '../../data/sources/sprb';
+import { fetchLedgerStatus, fetchMembers } from '../../data/sources/sprb';
 
 export function registerMemberTools(server: McpServer, env: Env): void {
   server.tool(
     'list_members',
-    'Returns DAO members (SPRB token holders) with optional filtering by role or group.',
+    'Returns DAO members (SPRB token holders) with their balance and join date, optionally filtered by role or group; filtered results list the roles and groups each member matched. Set includeFormer to also list past holders, with the date they left.',
     {
-      role: z.string().optional().describe('Filter by Hats hat ID'),
-      group: z.string().optional().describe('Filter by group/cell slug'),
+      role: z.string().optional().describe('Filter by Hats hat ID — wearers of the hat or any hat below it'),
+      group: z.string().optional().describe('Filter by group/cell slug — wearers of the group\'s linked hats'),
+      includeFormer: z.boolean().optional().describe('Include former members (default: false)'),
     },
     async (args, { meta }) => {
       const auth = await resolveAuthContext(meta?.request as Request, env);
       requireTier(auth, 'open');
 
-      const members = await fetchMembers(env, args);
-      return {
-        content: [{ type: 'text', text: JSON.stringify(members, null, 2) }],
-      };
+      const [members, status] = await Promise.all([fetchMembers(env, args), fetchLedgerStatus(env)]);
+      const content = [{ type: 'text' as const, text: JSON.stringify(members, null, 2) }];
+      if (!status.complete) {
+        content.push({
+          type: 'text',
+          text: `Incomplete: the SPRB index is still backfilling (scanned through block ${status.indexedThroughBlock ?? 'none'}), so some members may be missing.`,
+        });
+      }
+      return { content };
     },
   );
 
   server.tool(
     'get_member',
-    'Returns the profile for a specific address — roles held, groups, ENS name, and hat history.',
+    'Returns the profile for an address or ENS name — SPRB balance and membership dates, ENS profile, hats worn (each with its path from the top hat), groups, Snapshot proposals authored and votes cast, and documents naming the member as a party or signatory.',
     {
       address: z.string().describe('Ethereum address (0x...) or ENS name'),
     },
@@ -38,13 +44,13 @@ export function registerMemberTools(server: McpServer, env: Env): void {
       const auth = await resolveAuthContext(meta?.request as Request, env);
       requireTier(auth, 'open');
 
-      const { fetchMemberDetail } = await import('../../data/sources/sprb');
-      const member = await fetchMemberDetail(args.address, env);
-      if (!member) {
+      const { fetchMemberProfile } = await import('../../data/member-profile');
+      const profile = await fetchMemberProfile(args.address, env);
+      if (!profile) {
         return { content: [{ type: 'text', text: 'Member not found' }], isError: true };
       }
       return {
-        content: [{ type: 'text', text: JSON.stringify(member, null, 2) }],
+        content: [{ type: 'text', text: JSON.stringify(profile, null, 2) }],
       };
     },
   );
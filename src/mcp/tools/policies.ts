@@ -8,19 +8,27 @@ import { z } from 'zod';
 import { resolveAuthContext } from '../../auth/resolve';
 import { requireTier } from '../../auth/check';
 import { queryPolicies, queryPolicyDetail } from '../../data/db';
+import { resolveRef } from '../../sync/refs';
 
 export function registerPolicyTools(server: McpServer, env: Env): void {
   server.tool(
     'list_policies',
-    'Returns all SuperBenefit policies with optional domain filter.',
+    'Returns SuperBenefit policies — active ones unless other statuses are requested — with optional domain filter.',
     {
       domain: z.string().optional().describe('Domain slug to filter by'),
+      status: z.array(z.enum(['draft', 'active', 'superseded', 'retired'])).optional()
+        .describe('Statuses to include (default active only)'),
+      ref: z.string().optional().describe('Preview branch to read instead of main (one of SYNC_BRANCHES)'),
     },
     async (args, { meta }) => {
       const auth = await resolveAuthContext(meta?.request as Request, env);
       requireTier(auth, 'open');
 
-      const policies = await queryPolicies(env.GOVERNANCE_DB, args);
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const policies = await queryPolicies(env.GOVERNANCE_DB, { ...args, ref });
       return { content: [{ type: 'text', text: JSON.stringify(policies, null, 2) }] };
     },
   );
@@ -30,12 +38,17 @@ export function registerPolicyTools(server: McpServer, env: Env): void {
     'Returns detail for a specific policy, including the agreement that authorises it.',
     {
       id: z.string().describe('Policy slug or ID'),
+      ref: z.string().optional().describe('Preview branch to read instead of main (one of SYNC_BRANCHES)'),
     },
     async (args, { meta }) => {
       const auth = await resolveAuthContext(meta?.request as Request, env);
       requireTier(auth, 'open');
 
-      const policy = await queryPolicyDetail(env.GOVERNANCE_DB, args.id);
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const policy = await queryPolicyDetail(env.GOVERNANCE_DB, args.id, ref);
       if (!policy) {
         return { content: [{ type: 'text', text: `Policy ${args.id} not found` }], isError: true };
       }
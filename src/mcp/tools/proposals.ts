@@ -46,7 +46,7 @@ export function registerProposalTools(server: McpServer, env: Env): void {
 
   server.tool(
     'list_activity',
-    'Returns the DAO activity log (proposal events) with optional member or proposal filters.',
+    'Returns the DAO activity log (proposal events and membership joins/exits) with optional member or proposal filters.',
     {
       member: z.string().optional().describe('Filter by member address'),
       proposalId: z.string().optional().describe('Filter by proposal ID'),
@@ -0,0 +1,40 @@
+/**
+ * MCP tools: full-text search over governance documents (from D1).
+ * Tier: Open.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { resolveAuthContext } from '../../auth/resolve';
+import { requireTier } from '../../auth/check';
+import { searchDocuments } from '../../data/db';
+import { resolveRef } from '../../sync/refs';
+
+export function registerSearchTools(server: McpServer, env: Env): void {
+  server.tool(
+    'search_documents',
+    'Searches the text of SuperBenefit agreements, policies and proposals. Returns the best matches first, each with a snippet where matched terms are wrapped in <mark>. Terms must all match unless joined with OR; quote a phrase to match it exactly; end a word with * to match as a prefix.',
+    {
+      q: z.string().describe('Search terms'),
+      type: z.enum(['agreement', 'policy', 'proposal', 'other']).optional().describe('Only documents of this type'),
+      status: z.enum(['draft', 'active', 'superseded', 'retired']).optional().describe('Only documents with this status'),
+      domain: z.string().optional().describe('Domain slug to filter by'),
+      ref: z.string().optional().describe('Preview branch to search instead of main (one of SYNC_BRANCHES)'),
+      limit: z.number().int().min(1).max(100).optional().describe('Maximum results to return (default 20)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const results = await searchDocuments(env.GOVERNANCE_DB, { ...args, ref });
+      if (!results) {
+        return { content: [{ type: 'text', text: 'Search query has no searchable terms' }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify(results, null, 2) }] };
+    },
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * MCP tools: governance repo sync diagnostics (from D1).
+ * Tier: Open.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { resolveAuthContext } from '../../auth/resolve';
+import { requireTier } from '../../auth/check';
+import { querySyncDiagnostics, querySyncRuns, queryLastSuccessfulSync } from '../../data/db';
+import { resolveRef } from '../../sync/refs';
+
+export function registerSyncTools(server: McpServer, env: Env): void {
+  server.tool(
+    'get_sync_diagnostics',
+    'Returns frontmatter warnings and errors found while syncing a governance repo commit — unknown domains, invalid relationship types, bad dates, missing titles.',
+    {
+      commitSha: z.string().optional().describe('Governance repo commit SHA (defaults to the last successfully synced commit)'),
+      severity: z.enum(['error', 'warning']).optional().describe('Only return diagnostics of this severity'),
+      ref: z.string().optional().describe('Preview branch whose last synced commit is the default (one of SYNC_BRANCHES)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const ref = resolveRef(args.ref, env);
+      if (!ref) {
+        return { content: [{ type: 'text', text: `Unknown ref ${args.ref}` }], isError: true };
+      }
+      const commitSha = args.commitSha ?? (await queryLastSuccessfulSync(env.GOVERNANCE_DB, ref))?.commitSha;
+      if (!commitSha) {
+        return { content: [{ type: 'text', text: 'No synced commit found' }], isError: true };
+      }
+      const diagnostics = await querySyncDiagnostics(env.GOVERNANCE_DB, commitSha, { severity: args.severity });
+      return { content: [{ type: 'text', text: JSON.stringify({ commitSha, diagnostics }, null, 2) }] };
+    },
+  );
+
+  server.tool(
+    'list_sync_runs',
+    'Returns recent governance repo sync runs — commit, trigger, files processed, duration and outcome.',
+    {
+      status: z.enum(['running', 'succeeded', 'failed']).optional().describe('Filter by run outcome'),
+      ref: z.string().optional().describe('Only runs that synced this branch (main or one of SYNC_BRANCHES)'),
+      limit: z.number().int().min(1).max(100).optional().describe('Maximum runs to return (default 20)'),
+    },
+    async (args, { meta }) => {
+      const auth = await resolveAuthContext(meta?.request as Request, env);
+      requireTier(auth, 'open');
+
+      const runs = await querySyncRuns(env.GOVERNANCE_DB, args);
+      return { content: [{ type: 'text', text: JSON.stringify(runs, null, 2) }] };
+    },
+  );
+}
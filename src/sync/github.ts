@@ -1,8 +1,13 @@
 /**
- * GitHub webhook helpers — signature verification.
+ * GitHub helpers — webhook signature verification and governance repo API calls.
  * Mirrors the knowledge-server sync/github.ts pattern.
+ *
+ * Every call goes through the REST API base in GITHUB_API_URL (default
+ * https://api.github.com), so a local stand-in can replace GitHub in tests.
  */
 
+const DEFAULT_GITHUB_API = 'https://api.github.com';
+
 export async function verifyWebhookSignature(
   body: string,
   signature: string | null,
@@ -25,6 +30,155 @@ export async function verifyWebhookSignature(
   return timingSafeEqual(signature, expected);
 }
 
+/**
+ * Fetch raw file contents from the governance repo at a given ref (branch or commit SHA).
+ * Files that cannot be fetched are logged and omitted from the result.
+ */
+export async function fetchFilesFromGitHub(
+  paths: string[],
+  ref: string,
+  env: Env,
+): Promise<Record<string, string>> {
+  const results: Record<string, string> = {};
+  await Promise.all(
+    paths.map(async (path) => {
+      const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+      const url = `${apiBase(env)}/repos/${env.GOVERNANCE_REPO}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`;
+      const response = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${env.GITHUB_TOKEN}`,
+          Accept: 'application/vnd.github.raw+json',
+          'User-Agent': 'superbenefit-governance-server',
+        },
+      });
+      if (response.ok) {
+        results[path] = await response.text();
+      } else {
+        console.warn(`Could not fetch ${path}: ${response.status}`);
+      }
+    }),
+  );
+  return results;
+}
+
+/**
+ * Resolve a branch name or commit SHA in the governance repo to its commit SHA
+ * and committer timestamp (normalised to UTC ISO).
+ */
+export async function resolveCommit(
+  branchOrSha: string,
+  env: Env,
+): Promise<{ sha: string; committedAt: string }> {
+  const data = await githubApi<{ sha: string; commit: { committer: { date: string } } }>(
+    `/repos/${env.GOVERNANCE_REPO}/commits/${encodeURIComponent(branchOrSha)}`,
+    env,
+  );
+  return { sha: data.sha, committedAt: new Date(data.commit.committer.date).toISOString() };
+}
+
+/**
+ * List every markdown file in the governance repo tree at a commit.
+ * Throws if GitHub truncates the listing — a partial tree must never drive retirement.
+ */
+export async function listMarkdownTree(commitSha: string, env: Env): Promise<string[]> {
+  const data = await githubApi<{
+    truncated: boolean;
+    tree: Array<{ path: string; type: 'blob' | 'tree' | 'commit' }>;
+  }>(`/repos/${env.GOVERNANCE_REPO}/git/trees/${commitSha}?recursive=1`, env);
+
+  if (data.truncated) {
+    throw new Error(`GitHub tree listing for ${commitSha} was truncated`);
+  }
+
+  return data.tree
+    .filter((entry) => entry.type === 'blob' && entry.path.endsWith('.md'))
+    .map((entry) => entry.path);
+}
+
+export interface ChangedFile {
+  filename: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  previous_filename?: string;
+}
+
+/**
+ * List every file changed by a pull request (paginated, 100 per page).
+ */
+export async function listPullRequestFiles(pullNumber: number, env: Env): Promise<ChangedFile[]> {
+  const files: ChangedFile[] = [];
+  for (let page = 1; ; page++) {
+    const batch = await githubApi<ChangedFile[]>(
+      `/repos/${env.GOVERNANCE_REPO}/pulls/${pullNumber}/files?per_page=100&page=${page}`,
+      env,
+    );
+    files.push(...batch);
+    if (batch.length < 100) return files;
+  }
+}
+
+/**
+ * Files changed between two commits, with rename pairs (GitHub lists at most 300).
+ */
+export async function compareCommits(baseSha: string, headSha: string, env: Env): Promise<ChangedFile[]> {
+  const data = await githubApi<{ files?: ChangedFile[] }>(
+    `/repos/${env.GOVERNANCE_REPO}/compare/${baseSha}...${headSha}`,
+    env,
+  );
+  return data.files ?? [];
+}
+
+/**
+ * Publish a commit status on the governance repo.
+ * Requires a token with `statuses: write` on the repo.
+ */
+export async function createCommitStatus(
+  commitSha: string,
+  status: {
+    state: 'pending' | 'success' | 'failure' | 'error';
+    context: string;
+    description: string;
+    targetUrl?: string;
+  },
+  env: Env,
+): Promise<void> {
+  await githubApi(`/repos/${env.GOVERNANCE_REPO}/statuses/${commitSha}`, env, {
+    method: 'POST',
+    body: JSON.stringify({
+      state: status.state,
+      context: status.context,
+      // GitHub truncates nothing — it rejects descriptions over 140 characters
+      description: status.description.slice(0, 140),
+      target_url: status.targetUrl,
+    }),
+  });
+}
+
+/** REST API base for GitHub calls made outside this module. */
+export function apiBase(env: Env): string {
+  return (env.GITHUB_API_URL || DEFAULT_GITHUB_API).replace(/\/+$/, '');
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+async function githubApi<T>(path: string, env: Env, init?: { method: string; body: string }): Promise<T> {
+  const response = await fetch(`${apiBase(env)}${path}`, {
+    method: init?.method ?? 'GET',
+    body: init?.body,
+    headers: {
+      Authorization: `Bearer ${env.GITHUB_TOKEN}`,
+      Accept: 'application/vnd.github.v3+json',
+      'User-Agent': 'superbenefit-governance-server',
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`GitHub API error for ${path}: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
 function timingSafeEqual(a: string, b: string): boolean {
   if (a.length !== b.length) return false;
   let result = 0;
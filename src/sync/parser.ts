@@ -4,6 +4,10 @@
  * Extracts structured records from markdown files with YAML frontmatter.
  * Used by the sync workflow and the groups data source.
  *
+ * Frontmatter is parsed as YAML (via the `yaml` package), so nested maps,
+ * block scalars (| and >), quoted strings containing colons, booleans and
+ * unquoted dates all behave as a YAML author would expect.
+ *
  * Expected frontmatter fields (all optional with sensible defaults):
  *
  *   type: agreement | policy | proposal | other
@@ -12,17 +16,46 @@
  *   effective_from: ISO date
  *   effective_to: ISO date
  *   domain: string | string[]     ← domain slugs (both axes)
- *   scope: string | string[]      ← hat IDs or group slugs
+ *   scope: string | string[]      ← hat IDs, addresses or group slugs (type inferred)
+ *     - entity_type: hat | address | group
+ *       id: string                ← object form names the entity type explicitly
+ *       scope_relation: governs | governed_by | party | signatory
+ *   scope_relation: string        ← default relation for scope entries (governs if omitted)
  *   enacted_by: string            ← Snapshot proposal ID
+ *   supersedes: string | string[] ← slug(s) this document replaces (same as a `supersedes` related entry)
+ *   version_note: string          ← recorded on the document_versions row for a supersession
  *   related:                      ← cross-document relationships
  *     - type: authorized_by | implements | supersedes | references | evaluates | fulfills
  *       target: string            ← slug of related document
+ *     - authorized_by: string     ← single-key shorthand for the same edge
+ *
+ * Domains are defined separately, in DOMAINS_FILE at the repo root (see parseDomainsFile).
  *
  * OPEN QUESTION: Governance repo frontmatter audit needed before parser is finalised.
  * Missing fields default gracefully — the parser will not throw on sparse frontmatter.
+ * Every fallback is reported to the optional diagnostics collector instead, so
+ * sync runs can tell stewards which files need fixing.
  */
 
+import { parse as parseYaml, Schema, type ScalarTag, type Tags } from 'yaml';
 import type { Group } from '../data/sources/groups';
+import type { SyncDiagnostic } from '../types/sync';
+
+type ScopeEntityType = 'hat' | 'address' | 'group';
+type ScopeRelation = 'governs' | 'governed_by' | 'party' | 'signatory';
+
+// Mirrors the document_relationships CHECK constraint in migrations/0001_initial.sql
+const RELATIONSHIP_TYPES = ['authorized_by', 'implements', 'supersedes', 'references', 'evaluates', 'fulfills'] as const;
+type RelationshipType = (typeof RELATIONSHIP_TYPES)[number];
+
+// Directories whose markdown files are expected to carry frontmatter
+const DOCUMENT_DIRS = /^(agreements|policies|proposals)\//;
+
+/** Repo-root file that defines the domain hierarchy. */
+export const DOMAINS_FILE = 'domains.yml';
+
+// Mirrors the domains CHECK constraint in migrations/0001_initial.sql
+const DOMAIN_TYPES = ['entity', 'trust_zone', 'governance_function'] as const;
 
 interface ParsedDocument {
   id: string;
@@ -33,48 +66,181 @@ interface ParsedDocument {
   effectiveFrom?: string;
   effectiveTo?: string;
   enactedBy?: string;
+  versionNote?: string;
   domains: string[];
-  relationships: Array<{ type: string; targetSlug: string }>;
-  scope: Array<{ entityType: 'hat' | 'address' | 'group'; entityId: string }>;
+  relationships: Array<{ type: RelationshipType; targetSlug: string }>;
+  scope: Array<{ entityType: ScopeEntityType; entityId: string; relation: ScopeRelation }>;
 }
 
 /**
  * Parse a governance document and extract structured records.
  * Returns null if the file should not be indexed (e.g. README, template).
+ *
+ * Fallbacks and dropped values are pushed onto `diagnostics` when a collector is passed.
  */
-export function parseGovernanceDocument(path: string, content: string): ParsedDocument | null {
+export function parseGovernanceDocument(
+  path: string,
+  content: string,
+  diagnostics: SyncDiagnostic[] = [],
+): ParsedDocument | null {
   // Skip non-document files
   if (path.includes('README') || path.includes('template') || path.includes('_')) {
     return null;
   }
 
-  const fm = extractFrontmatter(content);
-  if (!fm) return null;
+  const reported = diagnostics.length;
+  const fm = extractFrontmatter(content, diagnostics);
+  if (!fm) {
+    // Invalid YAML is already reported; only flag document files with no block at all
+    if (DOCUMENT_DIRS.test(path) && diagnostics.length === reported) {
+      diagnostics.push({ severity: 'warning', code: 'missing_frontmatter', message: 'No frontmatter block — file is not indexed' });
+    }
+    return null;
+  }
 
   const slug = pathToSlug(path);
-  const id = fm.id ?? slug;
-  const type = normaliseType(fm.type);
-  const status = normaliseStatus(fm.status);
+  const id = asString(fm.id) ?? slug;
+  const type = normaliseType(fm.type, diagnostics);
+  const status = normaliseStatus(fm.status, diagnostics);
+
+  const title = asString(fm.title);
+  if (!title) {
+    diagnostics.push({ severity: 'warning', code: 'missing_title', message: `No title — using "${titleFromPath(path)}"` });
+  }
+
+  const effectiveFrom = validateDate('effective_from', fm.effective_from ?? fm.effectiveFrom, diagnostics);
+  const effectiveTo = validateDate('effective_to', fm.effective_to ?? fm.effectiveTo, diagnostics);
+  if (effectiveFrom && effectiveTo && effectiveTo < effectiveFrom) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'invalid_date_range',
+      message: `effective_to (${effectiveTo}) is before effective_from (${effectiveFrom})`,
+    });
+  }
 
   const domains = normaliseDomains(fm.domain ?? fm.domains ?? []);
-  const relationships = normaliseRelationships(fm.related ?? fm.relationships ?? []);
-  const scope = normaliseScope(fm.scope ?? []);
+  const relationships = normaliseRelationships(fm.related ?? fm.relationships ?? [], diagnostics);
+  for (const targetSlug of asStringList(fm.supersedes ?? [])) {
+    if (!relationships.some((r) => r.type === 'supersedes' && r.targetSlug === targetSlug)) {
+      relationships.push({ type: 'supersedes', targetSlug });
+    }
+  }
+  const rawScopeRelation = fm.scope_relation ?? fm.scopeRelation;
+  const scope = normaliseScope(
+    fm.scope ?? [],
+    normaliseScopeRelation(rawScopeRelation, diagnostics) ?? 'governs',
+    diagnostics,
+  );
 
   return {
     id,
     slug,
     type,
-    title: fm.title ?? titleFromPath(path),
+    title: title ?? titleFromPath(path),
     status,
-    effectiveFrom: fm.effective_from ?? fm.effectiveFrom ?? undefined,
-    effectiveTo: fm.effective_to ?? fm.effectiveTo ?? undefined,
-    enactedBy: fm.enacted_by ?? fm.enactedBy ?? undefined,
+    effectiveFrom,
+    effectiveTo,
+    enactedBy: asString(fm.enacted_by ?? fm.enactedBy),
+    versionNote: asString(fm.version_note ?? fm.versionNote),
     domains,
     relationships,
     scope,
   };
 }
 
+export interface ParsedDomain {
+  slug: string;
+  name: string;
+  domainType: (typeof DOMAIN_TYPES)[number];
+  parentSlug?: string;
+  hatId?: string;
+  description?: string;
+}
+
+/**
+ * Parse DOMAINS_FILE:
+ *
+ *   domains:
+ *     - slug: treasury
+ *       name: Treasury
+ *       type: entity | trust_zone | governance_function
+ *       parent: dao-core            ← slug of another domain in this file
+ *       hat: 0x0000001c00010001...  ← linked Hats hat ID
+ *       description: string
+ *
+ * Returns null when the file cannot be read as a domain list at all. Otherwise
+ * `listed` holds every slug the file names, including entries rejected for
+ * other problems, so sync never flags a domain as removed because of a typo.
+ */
+export function parseDomainsFile(
+  content: string,
+  diagnostics: SyncDiagnostic[] = [],
+): { domains: ParsedDomain[]; listed: string[] } | null {
+  let data: unknown;
+  try {
+    data = parseYaml(content, { customTags: frontmatterTags });
+  } catch (err) {
+    const message = (err instanceof Error ? err.message : String(err)).split('\n')[0];
+    diagnostics.push({ severity: 'error', code: 'invalid_domains_file', message: `Invalid YAML: ${message}` });
+    return null;
+  }
+  const entries = typeof data === 'object' && data !== null && !Array.isArray(data)
+    ? (data as Record<string, unknown>).domains
+    : undefined;
+  if (!Array.isArray(entries)) {
+    diagnostics.push({ severity: 'error', code: 'invalid_domains_file', message: 'Expected a top-level "domains" list' });
+    return null;
+  }
+
+  const listed: string[] = [];
+  const domains: ParsedDomain[] = [];
+  for (const entry of entries) {
+    const obj = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : {};
+    const slug = asString(obj.slug);
+    if (!slug) {
+      diagnostics.push({ severity: 'error', code: 'invalid_domain', message: `Domain entry ${JSON.stringify(entry)} has no slug — ignored` });
+      continue;
+    }
+    if (listed.includes(slug)) {
+      diagnostics.push({ severity: 'error', code: 'duplicate_domain', message: `Domain "${slug}" is listed more than once — later entry ignored` });
+      continue;
+    }
+    listed.push(slug);
+
+    const type = asString(obj.type ?? obj.domain_type);
+    if (!isDomainType(type)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid_domain',
+        message: `Domain "${slug}" type "${type ?? ''}" is not one of ${DOMAIN_TYPES.join(', ')} — entry not updated`,
+      });
+      continue;
+    }
+    domains.push({
+      slug,
+      name: asString(obj.name) ?? asString(obj.title) ?? slug,
+      domainType: type,
+      parentSlug: asString(obj.parent),
+      hatId: asString(obj.hat ?? obj.hat_id),
+      description: asString(obj.description),
+    });
+  }
+
+  // Parents must be defined alongside their children
+  for (const domain of domains) {
+    if (!domain.parentSlug) continue;
+    if (domain.parentSlug === domain.slug || !listed.includes(domain.parentSlug)) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unknown_parent_domain',
+        message: `Domain "${domain.slug}" parent "${domain.parentSlug}" is not another domain in ${DOMAINS_FILE} — parent ignored`,
+      });
+      domain.parentSlug = undefined;
+    }
+  }
+  return { domains, listed };
+}
+
 /**
  * Parse a group/cell frontmatter file from knowledge-base/data/groups/.
  */
@@ -82,12 +248,12 @@ export function parseGroupFrontmatter(id: string, content: string): Group {
   const fm = extractFrontmatter(content) ?? {};
   return {
     id,
-    name: fm.title ?? fm.name ?? id,
-    description: fm.description ?? undefined,
+    name: asString(fm.title) ?? asString(fm.name) ?? id,
+    description: asString(fm.description),
     status: fm.status === 'active' ? 'active' : fm.status === 'archived' ? 'archived' : 'inactive',
-    mandate: fm.mandate ?? undefined,
-    linkedHats: Array.isArray(fm.hats) ? fm.hats : fm.hats ? [fm.hats] : undefined,
-    url: fm.url ?? undefined,
+    mandate: asString(fm.mandate),
+    linkedHats: fm.hats ? asStringList(fm.hats) : undefined,
+    url: asString(fm.url),
   };
 }
 
@@ -95,118 +261,235 @@ export function parseGroupFrontmatter(id: string, content: string): Group {
 // Private helpers
 // ---------------------------------------------------------------------------
 
-function extractFrontmatter(content: string): Record<string, unknown> | null {
+function extractFrontmatter(content: string, diagnostics: SyncDiagnostic[] = []): Record<string, unknown> | null {
   const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
   if (!match) return null;
-  return parseYamlSimple(match[1]);
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1], { customTags: frontmatterTags });
+  } catch (err) {
+    // yaml's messages carry a multi-line source excerpt; the first line names the problem and position
+    const message = (err instanceof Error ? err.message : String(err)).split('\n')[0];
+    diagnostics.push({ severity: 'error', code: 'invalid_frontmatter', message: `Invalid YAML: ${message}` });
+    return null;
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    diagnostics.push({ severity: 'error', code: 'invalid_frontmatter', message: 'Frontmatter is not a key/value map' });
+    return null;
+  }
+  return data as Record<string, unknown>;
 }
 
+const yamlTimestamp = new Schema({ customTags: ['timestamp'] }).tags
+  .find((tag) => tag.tag === 'tag:yaml.org,2002:timestamp') as ScalarTag;
+
+// Date.UTC rolls impossible days over (2025-13-45 becomes 2026-02-14), so
+// those keep their source text and fail validateDate instead
+const calendarTimestamp: ScalarTag = {
+  ...yamlTimestamp,
+  resolve: (str, onError, options) => (isCalendarDate(str) ? yamlTimestamp.resolve(str, onError, options) : str),
+};
+
 /**
- * Minimal YAML parser for flat key: value and key: [list] frontmatter.
- * Does NOT handle nested objects — use a proper YAML library if needed.
+ * Core schema tags, adjusted for governance frontmatter:
+ * - integers (decimal, octal and hex) stay strings, so unquoted hat IDs,
+ *   addresses and long numeric IDs keep their exact text instead of losing
+ *   precision as JS numbers
+ * - YAML 1.1 timestamps are restored so unquoted dates parse as dates
  */
-function parseYamlSimple(yaml: string): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-  const lines = yaml.split('\n');
-  let currentKey: string | null = null;
-  let currentList: string[] | null = null;
-
-  for (const line of lines) {
-    // List item
-    if (line.match(/^\s+-\s+/)) {
-      if (currentList !== null) {
-        currentList.push(line.replace(/^\s+-\s+/, '').trim());
-      } else if (currentKey) {
-        // Object list item — simplified: parse "type: value" pairs
-        const itemLine = line.replace(/^\s+-\s+/, '').trim();
-        if (!result[currentKey]) result[currentKey] = [];
-        (result[currentKey] as unknown[]).push(itemLine);
-      }
-      continue;
-    }
+function frontmatterTags(tags: Tags): Tags {
+  return [
+    ...tags.filter((tag) => !(typeof tag === 'object' && tag.tag === 'tag:yaml.org,2002:int')),
+    calendarTimestamp,
+  ];
+}
 
-    // Key: value
-    const kvMatch = line.match(/^(\w[\w_-]*):\s*(.*)/);
-    if (kvMatch) {
-      if (currentList !== null && currentKey) {
-        result[currentKey] = currentList;
-        currentList = null;
-      }
-      currentKey = kvMatch[1];
-      const value = kvMatch[2].trim();
-
-      if (value === '' || value === '|' || value === '>') {
-        // Start of list or block — initialise list
-        currentList = [];
-        result[currentKey] = currentList;
-      } else if (value.startsWith('[') && value.endsWith(']')) {
-        result[currentKey] = value.slice(1, -1).split(',').map((v) => v.trim().replace(/^['"]|['"]$/g, ''));
-      } else {
-        result[currentKey] = value.replace(/^['"]|['"]$/g, '');
-        currentList = null;
-      }
-    }
+/** Coerce a YAML scalar to a trimmed string. Maps, lists and empty values become undefined. */
+function asString(raw: unknown): string | undefined {
+  if (raw instanceof Date) return raw.toISOString();
+  if (typeof raw === 'string') return raw.trim() || undefined;
+  if (typeof raw === 'number' || typeof raw === 'boolean') return String(raw);
+  return undefined;
+}
+
+function asStringList(raw: unknown): string[] {
+  const items = Array.isArray(raw) ? raw : [raw];
+  return items.map(asString).filter((v): v is string => v !== undefined);
+}
+
+/**
+ * Coerce a YAML date to an ISO string. Midnight UTC timestamps (plain
+ * `2025-06-01` in frontmatter) are reduced to the date alone.
+ */
+function asDate(raw: unknown): string | undefined {
+  if (raw instanceof Date) {
+    if (isNaN(raw.getTime())) return undefined;
+    const iso = raw.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
   }
+  return asString(raw);
+}
 
-  if (currentList !== null && currentKey) {
-    result[currentKey] = currentList;
+/**
+ * Validate a frontmatter date. Accepts ISO dates and datetimes; anything else is dropped.
+ */
+function validateDate(field: string, raw: unknown, diagnostics: SyncDiagnostic[]): string | undefined {
+  const value = asDate(raw);
+  if (value === undefined) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/.test(value) && isCalendarDate(value) && !isNaN(Date.parse(value))) {
+    return value;
   }
+  diagnostics.push({ severity: 'error', code: 'invalid_date', message: `${field} "${value}" is not a valid ISO date (YYYY-MM-DD) — ignored` });
+  return undefined;
+}
 
-  return result;
+/** Whether a value's leading YYYY-MM-DD names a real day. */
+function isCalendarDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
 }
 
-function normaliseType(raw: unknown): ParsedDocument['type'] {
+function normaliseType(raw: unknown, diagnostics: SyncDiagnostic[]): ParsedDocument['type'] {
   if (raw === 'agreement') return 'agreement';
   if (raw === 'policy') return 'policy';
   if (raw === 'proposal') return 'proposal';
+  if (raw === 'other') return 'other';
+  diagnostics.push(
+    raw === undefined
+      ? { severity: 'warning', code: 'missing_type', message: "No type — indexed as 'other'" }
+      : { severity: 'warning', code: 'unknown_type', message: `Unknown type "${String(raw)}" — indexed as 'other'` },
+  );
   return 'other';
 }
 
-function normaliseStatus(raw: unknown): ParsedDocument['status'] {
+function normaliseStatus(raw: unknown, diagnostics: SyncDiagnostic[]): ParsedDocument['status'] {
   if (raw === 'active') return 'active';
   if (raw === 'draft') return 'draft';
   if (raw === 'superseded') return 'superseded';
   if (raw === 'retired') return 'retired';
+  if (raw !== undefined) {
+    diagnostics.push({ severity: 'warning', code: 'unknown_status', message: `Unknown status "${String(raw)}" — indexed as 'draft'` });
+  }
   return 'draft'; // default
 }
 
 function normaliseDomains(raw: unknown): string[] {
   if (!raw) return [];
-  if (typeof raw === 'string') return [raw];
-  if (Array.isArray(raw)) return raw.filter(Boolean).map(String);
-  return [];
+  return asStringList(raw);
 }
 
-function normaliseRelationships(raw: unknown): Array<{ type: string; targetSlug: string }> {
+function normaliseRelationships(raw: unknown, diagnostics: SyncDiagnostic[]): ParsedDocument['relationships'] {
   if (!Array.isArray(raw)) return [];
-  return raw.flatMap((item) => {
+  return raw.flatMap((item): ParsedDocument['relationships'] => {
+    let type: string | undefined;
+    let target: string | undefined;
+
     if (typeof item === 'string') {
       // Inline format: "authorized_by: operating-agreement"
       const match = item.match(/^(\w+):\s*(.+)/);
-      if (match) return [{ type: match[1], targetSlug: match[2].trim() }];
+      if (match) [type, target] = [match[1], match[2].trim()];
+    } else if (typeof item === 'object' && item !== null) {
+      const obj = item as Record<string, unknown>;
+      type = asString(obj.type ?? obj.relation);
+      target = asString(obj.target);
+      // Shorthand map: "- authorized_by: operating-agreement"
+      const entries = Object.entries(obj);
+      if (!(type && target) && entries.length === 1) {
+        [type, target] = [entries[0][0], asString(entries[0][1])];
+      }
+    }
+
+    if (!type || !target) {
+      diagnostics.push({ severity: 'warning', code: 'invalid_related_entry', message: `Unreadable related entry ${JSON.stringify(item)} — ignored` });
       return [];
     }
+    if (!isRelationshipType(type)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid_relationship_type',
+        message: `Relationship type "${type}" (target "${target}") is not one of ${RELATIONSHIP_TYPES.join(', ')} — ignored`,
+      });
+      return [];
+    }
+    return [{ type, targetSlug: target }];
+  });
+}
+
+function isDomainType(raw: string | undefined): raw is ParsedDomain['domainType'] {
+  return (DOMAIN_TYPES as readonly (string | undefined)[]).includes(raw);
+}
+
+function isRelationshipType(raw: string): raw is RelationshipType {
+  return (RELATIONSHIP_TYPES as readonly string[]).includes(raw);
+}
+
+function normaliseScope(
+  raw: unknown,
+  defaultRelation: ScopeRelation,
+  diagnostics: SyncDiagnostic[],
+): ParsedDocument['scope'] {
+  const items = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  return items.flatMap((item): ParsedDocument['scope'] => {
+    const scalar = asString(item);
+    if (scalar) {
+      const entityType = inferEntityType(scalar);
+      return [{ entityType, entityId: normaliseEntityId(entityType, scalar), relation: defaultRelation }];
+    }
     if (typeof item === 'object' && item !== null) {
       const obj = item as Record<string, unknown>;
-      if (obj.type && obj.target) {
-        return [{ type: String(obj.type), targetSlug: String(obj.target) }];
+      const relation = normaliseScopeRelation(obj.scope_relation ?? obj.scopeRelation ?? obj.relation, diagnostics) ?? defaultRelation;
+      const entityType = normaliseEntityType(obj.entity_type ?? obj.entityType ?? obj.type);
+      const entityId = asString(obj.id ?? obj.entity_id ?? obj.entityId);
+      if (entityType && entityId) {
+        return [{ entityType, entityId: normaliseEntityId(entityType, entityId), relation }];
+      }
+      // Shorthand map: "- hat: 0x0000..." (optionally alongside scope_relation)
+      const entries = Object.entries(obj).filter(([key]) => normaliseEntityType(key));
+      if (entries.length === 1) {
+        const shorthandType = normaliseEntityType(entries[0][0])!;
+        const shorthandId = asString(entries[0][1]);
+        if (shorthandId) {
+          return [{ entityType: shorthandType, entityId: normaliseEntityId(shorthandType, shorthandId), relation }];
+        }
       }
     }
+    diagnostics.push({ severity: 'warning', code: 'invalid_scope_entry', message: `Unreadable scope entry ${JSON.stringify(item)} — ignored` });
     return [];
   });
 }
 
-function normaliseScope(raw: unknown): ParsedDocument['scope'] {
-  if (!Array.isArray(raw)) return [];
-  return raw.flatMap((item) => {
-    if (typeof item === 'string') {
-      // Infer entity type from format
-      if (item.startsWith('0x')) return [{ entityType: 'address', entityId: item }];
-      if (/^\d/.test(item)) return [{ entityType: 'hat', entityId: item }];
-      return [{ entityType: 'group', entityId: item }];
-    }
-    return [];
-  });
+function normaliseScopeRelation(raw: unknown, diagnostics: SyncDiagnostic[]): ScopeRelation | undefined {
+  if (raw === 'governs' || raw === 'governed_by' || raw === 'party' || raw === 'signatory') return raw;
+  if (raw !== undefined) {
+    diagnostics.push({ severity: 'warning', code: 'unknown_scope_relation', message: `Unknown scope_relation "${String(raw)}" — using default` });
+  }
+  return undefined;
+}
+
+function normaliseEntityType(raw: unknown): ScopeEntityType | undefined {
+  if (raw === 'hat' || raw === 'address' || raw === 'group') return raw;
+  return undefined;
+}
+
+/**
+ * Infer the entity type of a bare scope value.
+ * Hat IDs are 32-byte hex, pretty IDs (0x00000016.0001) or decimal; addresses are 20-byte hex.
+ */
+function inferEntityType(value: string): ScopeEntityType {
+  if (/^0x[0-9a-fA-F]{40}$/.test(value)) return 'address';
+  if (/^0x[0-9a-fA-F]{64}$/.test(value) || /^0x[0-9a-fA-F]{8}(\.[0-9a-fA-F]{4})*$/.test(value)) return 'hat';
+  if (/^\d/.test(value)) return 'hat';
+  return 'group';
+}
+
+/** Addresses are compared case-insensitively, so store them lowercased. */
+function normaliseEntityId(entityType: ScopeEntityType, entityId: string): string {
+  return entityType === 'address' ? entityId.toLowerCase() : entityId;
 }
 
 function pathToSlug(path: string): string {
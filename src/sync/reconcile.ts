@@ -0,0 +1,231 @@
+/**
+ * GovernanceReconcileWorkflow — full-repository reconcile of R2 + D1.
+ *
+ * The push-driven GovernanceSyncWorkflow only sees files named in a webhook
+ * payload, so a missed delivery, a fresh D1 database or a force-push leaves
+ * storage out of step with the repo. This workflow lists the whole tree at a
+ * commit and converges storage onto it.
+ *
+ * Triggered by POST /internal/resync, by the cron (gated to RECONCILE_INTERVAL_MS)
+ * and by the first push to a preview branch, which has no namespace to update yet.
+ * Only the run's ref is touched; main is reconciled unless a ref is given.
+ *
+ * Steps:
+ *   1. Resolve the target commit (explicit SHA or head of the ref's branch)
+ *   2. Sync domains.yml (main only; skipped when the repo has none)
+ *   3. List every markdown file in the tree at that commit
+ *   4. Sync each file through the same R2 + D1 path as push sync
+ *   5. Retire D1 documents whose source file no longer exists
+ *   6. Delete R2 objects whose source file no longer exists
+ *   7. Resolve relationships whose target was synced later in the run
+ *   8. Snapshot every document the reconcile changed
+ *   9. Record a summary in SYNC_STATE (main only)
+ *
+ * Each instance is recorded in sync_runs (see ./runs.ts).
+ */
+
+import { WorkflowEntrypoint, WorkflowStep, type WorkflowEvent } from 'cloudflare:workers';
+import { fetchFilesFromGitHub, listMarkdownTree, resolveCommit } from './github';
+import { recordRunStart, recordRunFinish } from './runs';
+import {
+  syncDocumentFile,
+  retireDocument,
+  resolvePendingRelationships,
+  recordUnresolvedRelationships,
+  listLiveDocumentKeys,
+  recordSnapshots,
+  syncDomainsFile,
+  r2KeyForPath,
+  r2PrefixForRef,
+} from './store';
+import { MAIN_REF } from './refs';
+import { DOMAINS_FILE } from './parser';
+import type { ReconcileSummary } from '../types/sync';
+
+export interface ReconcileParams {
+  /** Commit to reconcile against. Defaults to the current head of the ref's branch. */
+  commitSha?: string;
+  /** Rewrite every file even when its content hash is unchanged. */
+  force?: boolean;
+  /** Branch namespace to reconcile. Defaults to main. */
+  ref?: string;
+  /** What started the run — recorded in sync_runs. */
+  trigger: 'resync' | 'cron' | 'push';
+}
+
+const RECONCILE_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const LAST_RUN_KEY = 'lastrun:reconcile';
+const SUMMARY_KEY = 'reconcile:last';
+
+export class GovernanceReconcileWorkflow extends WorkflowEntrypoint<Env, ReconcileParams> {
+  async run(event: WorkflowEvent<ReconcileParams>, step: WorkflowStep): Promise<ReconcileSummary> {
+    const startedAt = await step.do('record-start', async () => {
+      return recordRunStart(this.env.GOVERNANCE_DB, {
+        id: event.instanceId,
+        workflow: 'reconcile',
+        trigger: event.payload.trigger,
+        ref: event.payload.ref ?? MAIN_REF,
+        commitSha: event.payload.commitSha,
+      });
+    });
+
+    let summary: ReconcileSummary;
+    try {
+      summary = await this.reconcile(event.payload, step, startedAt);
+    } catch (err) {
+      await step.do('record-failure', async () => {
+        await recordRunFinish(this.env.GOVERNANCE_DB, event.instanceId, {
+          status: 'failed',
+          startedAt,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+      throw err;
+    }
+
+    await step.do('record-finish', async () => {
+      await recordRunFinish(this.env.GOVERNANCE_DB, event.instanceId, {
+        status: 'succeeded',
+        startedAt,
+        commitSha: summary.commitSha,
+        filesProcessed: summary.filesScanned,
+      });
+    });
+    return summary;
+  }
+
+  private async reconcile(
+    params: Readonly<ReconcileParams>,
+    step: WorkflowStep,
+    startedAt: string,
+  ): Promise<ReconcileSummary> {
+    const ref = params.ref ?? MAIN_REF;
+
+    // Step 1: Resolve target commit
+    const { sha: commitSha, committedAt } = await step.do('resolve-commit', async () => {
+      return resolveCommit(params.commitSha ?? ref, this.env);
+    });
+
+    // Step 2: Domains first, so documents can reference newly defined ones
+    if (ref === MAIN_REF) {
+      await step.do('sync-domains', async () => {
+        const files = await fetchFilesFromGitHub([DOMAINS_FILE], commitSha, this.env);
+        if (!(DOMAINS_FILE in files)) return null;
+        return syncDomainsFile(this.env.GOVERNANCE_DB, files[DOMAINS_FILE], commitSha);
+      });
+    }
+
+    // Step 3: List the full markdown tree
+    const paths = await step.do('list-tree', async () => {
+      return listMarkdownTree(commitSha, this.env);
+    });
+
+    // Step 4: Sync every file
+    const added: string[] = [];
+    const updated: string[] = [];
+    let unchanged = 0;
+    for (const path of paths) {
+      const outcome = await step.do(`sync-file:${path}`, async () => {
+        const files = await fetchFilesFromGitHub([path], commitSha, this.env);
+        if (!(path in files)) {
+          throw new Error(`Could not fetch ${path} at ${commitSha}`);
+        }
+        return syncDocumentFile(this.env, path, files[path], commitSha, { force: params.force, ref });
+      });
+      if (outcome === 'added') added.push(path);
+      if (outcome === 'updated') updated.push(path);
+      if (outcome === 'unchanged') unchanged++;
+    }
+
+    const expectedKeys = new Set(paths.map((path) => r2KeyForPath(path, ref)));
+
+    // Step 5: Retire documents whose file is gone
+    const retired = await step.do('retire-documents', async () => {
+      const liveKeys = await listLiveDocumentKeys(this.env.GOVERNANCE_DB, ref);
+      const slugs: string[] = [];
+      for (const key of liveKeys) {
+        if (expectedKeys.has(key)) continue;
+        const slug = await retireDocument(this.env.GOVERNANCE_DB, key);
+        if (slug) slugs.push(slug);
+      }
+      return slugs;
+    });
+
+    // Step 6: Prune orphaned R2 objects
+    const prunedObjects = await step.do('prune-r2', async () => {
+      const stale: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const listing = await this.env.GOVERNANCE_CONTENT.list({ prefix: r2PrefixForRef(ref), cursor });
+        for (const obj of listing.objects) {
+          if (!expectedKeys.has(obj.key)) stale.push(obj.key);
+        }
+        cursor = listing.truncated ? listing.cursor : undefined;
+      } while (cursor);
+
+      // R2 bulk delete accepts up to 1000 keys per call
+      for (let i = 0; i < stale.length; i += 1000) {
+        await this.env.GOVERNANCE_CONTENT.delete(stale.slice(i, i + 1000));
+      }
+      return stale.length;
+    });
+
+    // Step 7: Second relationship pass for forward references
+    await step.do('resolve-relationships', async () => {
+      const resolved = await resolvePendingRelationships(this.env.GOVERNANCE_DB);
+      await recordUnresolvedRelationships(this.env.GOVERNANCE_DB, commitSha, paths, ref);
+      return resolved;
+    });
+
+    // Step 8: Immutable history for time-travel queries
+    await step.do('record-snapshots', async () => {
+      return recordSnapshots(this.env, ref, commitSha, committedAt);
+    });
+
+    // Step 9: Record summary
+    return step.do('record-summary', async () => {
+      const summary: ReconcileSummary = {
+        commitSha,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        filesScanned: paths.length,
+        added,
+        updated,
+        unchanged,
+        retired,
+        prunedObjects,
+      };
+      if (ref === MAIN_REF) {
+        await this.env.SYNC_STATE.put(SUMMARY_KEY, JSON.stringify(summary));
+      }
+      return summary;
+    });
+  }
+}
+
+/**
+ * Start a reconcile run if RECONCILE_INTERVAL_MS has passed since the last one.
+ * Called from the 15-min cron — the same last-run gating used by the KV cache refresh.
+ */
+export async function scheduleReconcileIfDue(env: Env, now = Date.now()): Promise<void> {
+  const lastRun = await env.SYNC_STATE.get(LAST_RUN_KEY);
+  if (lastRun && now - parseInt(lastRun, 10) < RECONCILE_INTERVAL_MS) {
+    return; // Not due yet
+  }
+
+  try {
+    await env.GOVERNANCE_RECONCILE.create({ params: { trigger: 'cron' } });
+    await env.SYNC_STATE.put(LAST_RUN_KEY, now.toString());
+  } catch (err) {
+    // Log but don't throw — the next cron cycle will retry
+    console.error('Failed to start scheduled reconcile:', err);
+  }
+}
+
+/**
+ * Read the summary of the most recent completed reconcile run.
+ */
+export async function getLastReconcileSummary(env: Env): Promise<ReconcileSummary | null> {
+  const raw = await env.SYNC_STATE.get(SUMMARY_KEY);
+  return raw ? (JSON.parse(raw) as ReconcileSummary) : null;
+}
@@ -0,0 +1,45 @@
+/**
+ * Content refs — the canonical `main` namespace plus preview branches.
+ *
+ * Branches matching SYNC_BRANCHES (comma-separated globs, e.g. "staging,proposal/*")
+ * sync alongside main into their own namespace: R2 keys under refs/<branch>/ and
+ * D1 rows with documents.ref = <branch>. Document IDs outside main are prefixed
+ * "<branch>:" so rows keyed by document ID never collide with canonical ones.
+ */
+
+export const MAIN_REF = 'main';
+
+/**
+ * Whether pushes to a branch are synced. main always is.
+ * In SYNC_BRANCHES, `*` matches within one path segment and `**` across segments.
+ */
+export function isSyncedRef(ref: string, env: Env): boolean {
+  if (ref === MAIN_REF) return true;
+  return (env.SYNC_BRANCHES ?? '')
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+    .some((pattern) => globToRegExp(pattern).test(ref));
+}
+
+/**
+ * Validate a `ref` query or tool parameter. Returns main when omitted and null
+ * for a branch that is not synced.
+ */
+export function resolveRef(ref: string | undefined, env: Env): string | null {
+  if (!ref) return MAIN_REF;
+  return isSyncedRef(ref, env) ? ref : null;
+}
+
+/** D1 document ID for a parsed document ID synced from `ref`. */
+export function documentIdForRef(id: string, ref: string): string {
+  return ref === MAIN_REF ? id : `${ref}:${id}`;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('**')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,57 @@
+/**
+ * Sync run bookkeeping — one sync_runs row per workflow instance.
+ *
+ * Both workflows record a 'running' row as their first step and close it as
+ * 'succeeded' or 'failed' as their last, so /api/v1/sync/runs and the health
+ * check can report what the pipeline did and which commit D1 reflects.
+ */
+
+export type SyncWorkflowName = 'sync' | 'reconcile';
+export type SyncTrigger = 'push' | 'resync' | 'cron';
+
+export async function recordRunStart(
+  db: D1Database,
+  run: { id: string; workflow: SyncWorkflowName; trigger: SyncTrigger; ref: string; commitSha?: string },
+): Promise<string> {
+  const startedAt = new Date().toISOString();
+  await db
+    .prepare(`
+      INSERT INTO sync_runs (id, workflow, trigger_source, ref, commit_sha, status, started_at)
+      VALUES (?, ?, ?, ?, ?, 'running', ?)
+      ON CONFLICT(id) DO UPDATE SET status = 'running', started_at = excluded.started_at
+    `)
+    .bind(run.id, run.workflow, run.trigger, run.ref, run.commitSha ?? null, startedAt)
+    .run();
+  return startedAt;
+}
+
+export async function recordRunFinish(
+  db: D1Database,
+  id: string,
+  result: {
+    status: 'succeeded' | 'failed';
+    startedAt: string;
+    commitSha?: string;
+    filesProcessed?: number;
+    error?: string;
+  },
+): Promise<void> {
+  const finishedAt = new Date();
+  await db
+    .prepare(`
+      UPDATE sync_runs
+      SET status = ?, commit_sha = COALESCE(?, commit_sha), files_processed = ?, error = ?,
+          finished_at = ?, duration_ms = ?
+      WHERE id = ?
+    `)
+    .bind(
+      result.status,
+      result.commitSha ?? null,
+      result.filesProcessed ?? 0,
+      result.error ?? null,
+      finishedAt.toISOString(),
+      finishedAt.getTime() - Date.parse(result.startedAt),
+      id,
+    )
+    .run();
+}
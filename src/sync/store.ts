@@ -0,0 +1,664 @@
+/**
+ * R2 + D1 write helpers shared by the sync workflows.
+ *
+ * The push-driven GovernanceSyncWorkflow and the full-tree
+ * GovernanceReconcileWorkflow both funnel every file through syncDocumentFile,
+ * so a document looks the same in storage regardless of which path wrote it.
+ */
+
+import { DOMAINS_FILE, parseDomainsFile, parseGovernanceDocument, type ParsedDomain } from './parser';
+import { renderPlainText, stripFrontmatter } from '../data/content';
+import { MAIN_REF, documentIdForRef } from './refs';
+import type { SyncDiagnostic } from '../types/sync';
+
+/** R2 prefix for all synced governance repo content on main. */
+export const R2_PREFIX = 'governance/';
+
+export type SyncOutcome = 'added' | 'updated' | 'unchanged' | 'skipped';
+
+// Pending edges whose target slug now exists in the source document's ref —
+// live slugs first, then former slugs from document_aliases
+const RESOLVABLE_PENDING = `
+  targets(ref, slug, id) AS (
+    SELECT ref, slug, id FROM documents
+    UNION ALL
+    SELECT a.ref, a.slug, a.document_id FROM document_aliases a
+    WHERE NOT EXISTS (SELECT 1 FROM documents d WHERE d.ref = a.ref AND d.slug = a.slug)
+  ),
+  resolvable(from_id, relationship_type, target_slug, to_id, version_note) AS (
+    SELECT p.from_id, p.relationship_type, p.target_slug, t.id, p.version_note
+    FROM pending_relationships p
+    INNER JOIN documents f ON f.id = p.from_id
+    INNER JOIN targets t ON t.ref = f.ref AND t.slug = p.target_slug
+  )
+`;
+
+/** R2 prefix for a ref: main keeps the canonical prefix, branches nest under refs/<branch>/. */
+export function r2PrefixForRef(ref: string): string {
+  return ref === MAIN_REF ? R2_PREFIX : `refs/${ref}/${R2_PREFIX}`;
+}
+
+export function r2KeyForPath(path: string, ref = MAIN_REF): string {
+  return `${r2PrefixForRef(ref)}${path}`;
+}
+
+/** Commit-versioned copy of a live R2 object, e.g. history/<sha>/governance/policies/x.md. */
+export function r2HistoryKey(r2Key: string, commitSha: string): string {
+  return `history/${commitSha}/${r2Key}`;
+}
+
+/**
+ * SHA-256 of file content as lowercase hex.
+ * Stored in documents.content_hash and the R2 object's customMetadata.contentHash.
+ */
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Write one file to R2 and, if it is a governance document, upsert its D1 records.
+ *
+ * Returns 'unchanged' without writing anything when both the R2 object and the
+ * D1 row already carry the same content hash (pass `force` to rewrite anyway),
+ * and 'skipped' for files the parser does not index (README, templates, no frontmatter).
+ * Frontmatter diagnostics are recorded for the commit either way.
+ */
+export async function syncDocumentFile(
+  env: Env,
+  path: string,
+  content: string,
+  commitSha: string,
+  options?: { force?: boolean; ref?: string },
+): Promise<SyncOutcome> {
+  const ref = options?.ref ?? MAIN_REF;
+  const r2Key = r2KeyForPath(path, ref);
+  const contentHash = await hashContent(content);
+  const diagnostics: SyncDiagnostic[] = [];
+  const parsed = parseGovernanceDocument(path, content, diagnostics);
+  if (parsed) {
+    diagnostics.push(...await checkDomains(env.GOVERNANCE_DB, parsed.domains));
+  }
+  await recordDiagnostics(env.GOVERNANCE_DB, commitSha, path, diagnostics);
+
+  if (!options?.force && await isUnchanged(env, r2Key, contentHash, parsed !== null)) {
+    return 'unchanged';
+  }
+
+  // Write raw markdown to R2
+  await env.GOVERNANCE_CONTENT.put(r2Key, content, {
+    customMetadata: { commitSha, contentHash, syncedAt: new Date().toISOString() },
+  });
+
+  // Upsert D1
+  if (!parsed) return 'skipped';
+  return upsertDocument(env.GOVERNANCE_DB, parsed, content, r2Key, contentHash, ref);
+}
+
+/**
+ * Mark the document stored at an R2 key as retired rather than hard deleting it
+ * (preserves history). Returns the retired slug, or null if nothing was retired.
+ */
+export async function retireDocument(db: D1Database, r2Key: string): Promise<string | null> {
+  const row = await db
+    .prepare(`
+      UPDATE documents SET status = 'retired', updated_at = datetime('now')
+      WHERE r2_key = ? AND status != 'retired'
+      RETURNING id, slug
+    `)
+    .bind(r2Key)
+    .first<{ id: string; slug: string }>();
+  if (!row) return null;
+
+  // A retired document no longer asserts its unresolved edges, and its text is gone from R2
+  await db.batch([
+    db.prepare('DELETE FROM pending_relationships WHERE from_id = ?').bind(row.id),
+    db.prepare('DELETE FROM document_search WHERE document_id = ?').bind(row.id),
+  ]);
+  return row.slug;
+}
+
+/**
+ * Second relationship pass — run once at the end of every sync.
+ * Promotes pending edges whose target slug now exists into document_relationships.
+ * Returns the number of edges resolved.
+ */
+export async function resolvePendingRelationships(db: D1Database): Promise<number> {
+  const supersessions = await db
+    .prepare(`
+      WITH ${RESOLVABLE_PENDING}
+      SELECT from_id, to_id, version_note FROM resolvable
+      WHERE relationship_type = 'supersedes'
+    `)
+    .all<{ from_id: string; to_id: string; version_note: string | null }>();
+
+  const [inserted] = await db.batch([
+    db.prepare(`
+      WITH ${RESOLVABLE_PENDING}
+      INSERT OR IGNORE INTO document_relationships (id, from_id, to_id, relationship_type)
+      SELECT from_id || ':' || relationship_type || ':' || to_id, from_id, to_id, relationship_type
+      FROM resolvable
+    `),
+    db.prepare(`
+      WITH ${RESOLVABLE_PENDING}
+      DELETE FROM pending_relationships
+      WHERE (from_id, relationship_type, target_slug) IN (
+        SELECT from_id, relationship_type, target_slug FROM resolvable
+      )
+    `),
+  ]);
+
+  for (const row of supersessions.results ?? []) {
+    await applySupersession(db, row.from_id, row.to_id, row.version_note ?? undefined);
+  }
+
+  return inserted.meta.changes ?? 0;
+}
+
+/**
+ * Move the live document stored at `fromPath` to `toPath` in place, before the
+ * new file is synced. The row keeps its ID, so relationships, scope and version
+ * history carry over; the old slug becomes an alias. The caller still syncs the
+ * new file (which writes the new R2 key) and deletes the old R2 object.
+ *
+ * Returns false, leaving the usual retire + add, when no live document sits at
+ * `fromPath`, the new file is not a governance document, or another document
+ * already holds the new slug.
+ */
+export async function renameDocument(
+  db: D1Database,
+  fromPath: string,
+  toPath: string,
+  content: string,
+  commitSha: string,
+  ref = MAIN_REF,
+): Promise<boolean> {
+  const parsed = parseGovernanceDocument(toPath, content);
+  if (!parsed) return false;
+
+  const fromKey = r2KeyForPath(fromPath, ref);
+  const current = await db
+    .prepare(`SELECT id, slug FROM documents WHERE r2_key = ? AND status != 'retired'`)
+    .bind(fromKey)
+    .first<{ id: string; slug: string }>();
+  if (!current) return false;
+
+  const holder = await db
+    .prepare('SELECT id FROM documents WHERE ref = ? AND slug = ?')
+    .bind(ref, parsed.slug)
+    .first<{ id: string }>();
+  if (holder && holder.id !== current.id) return false;
+
+  const statements = [
+    db
+      .prepare(`UPDATE documents SET slug = ?, r2_key = ?, updated_at = datetime('now') WHERE id = ?`)
+      .bind(parsed.slug, r2KeyForPath(toPath, ref), current.id),
+    db.prepare('DELETE FROM document_aliases WHERE ref = ? AND slug = ?').bind(ref, parsed.slug),
+  ];
+  if (parsed.slug !== current.slug) {
+    statements.push(
+      db
+        .prepare(`
+          INSERT OR REPLACE INTO document_aliases (ref, slug, document_id, r2_key, commit_sha)
+          VALUES (?, ?, ?, ?, ?)
+        `)
+        .bind(ref, current.slug, current.id, fromKey, commitSha),
+    );
+  }
+  await db.batch(statements);
+  return true;
+}
+
+/**
+ * Report domain slugs that no row in `domains` carries. Unknown domains are
+ * skipped on upsert, so the association would otherwise be lost silently.
+ *
+ * `listed` checks against a proposed DOMAINS_FILE instead of the synced one
+ * (PR validation): listed slugs pass, and any other slug D1 knows is reported
+ * as removed.
+ */
+export async function checkDomains(db: D1Database, domainSlugs: string[], listed?: string[]): Promise<SyncDiagnostic[]> {
+  const diagnostics: SyncDiagnostic[] = [];
+  for (const domainSlug of domainSlugs) {
+    if (listed?.includes(domainSlug)) continue;
+    const domain = await db
+      .prepare('SELECT id, removed_at FROM domains WHERE slug = ?')
+      .bind(domainSlug)
+      .first<{ id: string; removed_at: string | null }>();
+    if (!domain) {
+      diagnostics.push({ severity: 'warning', code: 'unknown_domain', message: `Unknown domain "${domainSlug}" — association skipped` });
+    } else if (listed || domain.removed_at) {
+      diagnostics.push({ severity: 'warning', code: 'removed_domain', message: `Domain "${domainSlug}" is no longer listed in domains.yml` });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Sync DOMAINS_FILE into the domains table. Problems in the file are recorded
+ * as sync diagnostics for the commit; an unreadable file changes nothing.
+ * Returns the slugs newly flagged as removed, or null if the file was unreadable.
+ */
+export async function syncDomainsFile(db: D1Database, content: string, commitSha: string): Promise<string[] | null> {
+  const diagnostics: SyncDiagnostic[] = [];
+  const parsed = parseDomainsFile(content, diagnostics);
+  await recordDiagnostics(db, commitSha, DOMAINS_FILE, diagnostics);
+  if (!parsed) return null;
+  return upsertDomains(db, parsed.domains, parsed.listed);
+}
+
+/**
+ * Replace the stored diagnostics for one file at one commit.
+ */
+export async function recordDiagnostics(
+  db: D1Database,
+  commitSha: string,
+  path: string,
+  diagnostics: SyncDiagnostic[],
+): Promise<void> {
+  await db.batch([
+    db.prepare('DELETE FROM sync_diagnostics WHERE commit_sha = ? AND path = ?').bind(commitSha, path),
+    ...diagnostics.map((d, i) =>
+      db
+        .prepare(`
+          INSERT INTO sync_diagnostics (id, commit_sha, path, severity, code, message)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `)
+        .bind(`${commitSha}:${path}:${i}`, commitSha, path, d.severity, d.code, d.message),
+    ),
+  ]);
+}
+
+/**
+ * After the second relationship pass, report edges from the given files that
+ * still point at unknown slugs. Appended to each file's diagnostics for the commit.
+ */
+export async function recordUnresolvedRelationships(
+  db: D1Database,
+  commitSha: string,
+  paths: string[],
+  ref = MAIN_REF,
+): Promise<number> {
+  const prefix = r2PrefixForRef(ref);
+  const r2Keys = new Set(paths.map((path) => `${prefix}${path}`));
+  const result = await db
+    .prepare(`
+      SELECT d.r2_key, p.relationship_type, p.target_slug
+      FROM pending_relationships p
+      INNER JOIN documents d ON d.id = p.from_id
+      WHERE d.ref = ?
+      ORDER BY d.r2_key, p.target_slug
+    `)
+    .bind(ref)
+    .all<{ r2_key: string; relationship_type: string; target_slug: string }>();
+
+  const unresolved = (result.results ?? []).filter((row) => r2Keys.has(row.r2_key));
+  if (!unresolved.length) return 0;
+
+  await db.batch(
+    unresolved.map((row) => {
+      const path = row.r2_key.slice(prefix.length);
+      return db
+        .prepare(`
+          INSERT OR REPLACE INTO sync_diagnostics (id, commit_sha, path, severity, code, message)
+          VALUES (?, ?, ?, 'warning', 'unresolved_relationship', ?)
+        `)
+        .bind(
+          `${commitSha}:${path}:unresolved:${row.relationship_type}:${row.target_slug}`,
+          commitSha,
+          path,
+          `${row.relationship_type} target "${row.target_slug}" does not match any document slug`,
+        );
+    }),
+  );
+  return unresolved.length;
+}
+
+/**
+ * Record a synced commit and snapshot every document in the ref whose row
+ * differs from its latest snapshot. Run once at the end of every sync, after
+ * the relationship pass, so supersession and retirement are captured too.
+ *
+ * Changed content is copied to a commit-versioned R2 key; a snapshot whose
+ * content is unchanged keeps pointing at the previous copy.
+ * Returns the number of snapshots written.
+ */
+export async function recordSnapshots(
+  env: Env,
+  ref: string,
+  commitSha: string,
+  committedAt: string,
+): Promise<number> {
+  const db = env.GOVERNANCE_DB;
+  await db
+    .prepare(`
+      INSERT INTO sync_commits (ref, commit_sha, committed_at) VALUES (?, ?, ?)
+      ON CONFLICT(ref, commit_sha) DO UPDATE SET synced_at = datetime('now')
+    `)
+    .bind(ref, commitSha, committedAt)
+    .run();
+
+  const { results } = await db
+    .prepare(`
+      SELECT d.id, d.slug, d.type, d.title, d.status, d.effective_from, d.effective_to,
+             d.content_hash, d.enacted_by, d.r2_key,
+             s.content_hash AS previous_hash, s.r2_key AS previous_key
+      FROM documents d
+      LEFT JOIN document_snapshots s ON s.id = (
+        SELECT id FROM document_snapshots
+        WHERE document_id = d.id
+        ORDER BY committed_at DESC, created_at DESC
+        LIMIT 1
+      )
+      WHERE d.ref = ?
+        AND (
+          s.id IS NULL
+          OR s.content_hash IS NOT d.content_hash
+          OR s.status != d.status
+          OR s.slug != d.slug
+          OR s.title != d.title
+          OR s.effective_from IS NOT d.effective_from
+          OR s.effective_to IS NOT d.effective_to
+          OR s.enacted_by IS NOT d.enacted_by
+        )
+    `)
+    .bind(ref)
+    .all<SnapshotCandidate>();
+
+  const statements = [];
+  for (const row of results ?? []) {
+    let historyKey = row.previous_hash === row.content_hash ? row.previous_key : null;
+    if (!historyKey && row.r2_key) {
+      historyKey = await copyToHistory(env, row.r2_key, commitSha, row.content_hash);
+    }
+    statements.push(
+      db
+        .prepare(`
+          INSERT OR REPLACE INTO document_snapshots (
+            id, document_id, ref, commit_sha, committed_at, slug, type, title, status,
+            effective_from, effective_to, content_hash, enacted_by, r2_key
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .bind(
+          `${commitSha}:${row.id}`, row.id, ref, commitSha, committedAt, row.slug, row.type, row.title, row.status,
+          row.effective_from, row.effective_to, row.content_hash, row.enacted_by, historyKey,
+        ),
+    );
+  }
+  if (statements.length) await db.batch(statements);
+  return statements.length;
+}
+
+/**
+ * List the R2 keys of every document in a ref that is not yet retired.
+ * Used by the reconcile workflow to find rows whose source file has disappeared.
+ */
+export async function listLiveDocumentKeys(db: D1Database, ref = MAIN_REF): Promise<string[]> {
+  const result = await db
+    .prepare(`SELECT r2_key FROM documents WHERE ref = ? AND status != 'retired' AND r2_key IS NOT NULL`)
+    .bind(ref)
+    .all<{ r2_key: string }>();
+  return (result.results ?? []).map((r) => r.r2_key);
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+interface SnapshotCandidate {
+  id: string;
+  slug: string;
+  type: string;
+  title: string;
+  status: string;
+  effective_from: string | null;
+  effective_to: string | null;
+  content_hash: string | null;
+  enacted_by: string | null;
+  r2_key: string | null;
+  previous_hash: string | null;
+  previous_key: string | null;
+}
+
+/**
+ * Copy a live R2 object to its history key for a commit. Returns null when the
+ * live object is gone (a retired document whose content was never captured) or
+ * already holds different content than the row being snapshotted.
+ */
+async function copyToHistory(
+  env: Env,
+  r2Key: string,
+  commitSha: string,
+  contentHash: string | null,
+): Promise<string | null> {
+  const historyKey = r2HistoryKey(r2Key, commitSha);
+  if (await env.GOVERNANCE_CONTENT.head(historyKey)) return historyKey;
+
+  const live = await env.GOVERNANCE_CONTENT.get(r2Key);
+  if (!live || live.customMetadata?.contentHash !== contentHash) return null;
+  await env.GOVERNANCE_CONTENT.put(historyKey, await live.text(), {
+    customMetadata: { ...live.customMetadata, commitSha },
+  });
+  return historyKey;
+}
+
+/**
+ * Record that `successorId` replaces `predecessorId` and close the predecessor.
+ */
+async function applySupersession(
+  db: D1Database,
+  successorId: string,
+  predecessorId: string,
+  versionNote?: string,
+): Promise<void> {
+  await db
+    .prepare(`
+      INSERT INTO document_versions (id, document_id, predecessor_id, version_note)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET version_note = excluded.version_note
+    `)
+    .bind(`${successorId}:${predecessorId}`, successorId, predecessorId, versionNote ?? null)
+    .run();
+  await closePredecessor(db, successorId, predecessorId);
+}
+
+/**
+ * Mark a predecessor superseded and end its effective period where the successor's begins.
+ * Only an active successor closes its predecessor — a draft replacement leaves
+ * the current text in force. Retired predecessors stay retired.
+ */
+async function closePredecessor(db: D1Database, successorId: string, predecessorId: string): Promise<void> {
+  await db
+    .prepare(`
+      UPDATE documents
+      SET status = 'superseded',
+          effective_to = COALESCE(
+            (SELECT effective_from FROM documents WHERE id = ?1),
+            effective_to
+          ),
+          updated_at = datetime('now')
+      WHERE id = ?2
+        AND status != 'retired'
+        AND EXISTS (SELECT 1 FROM documents WHERE id = ?1 AND status IN ('active', 'superseded'))
+    `)
+    .bind(successorId, predecessorId)
+    .run();
+}
+
+async function isUnchanged(env: Env, r2Key: string, contentHash: string, isDocument: boolean): Promise<boolean> {
+  const head = await env.GOVERNANCE_CONTENT.head(r2Key);
+  if (head?.customMetadata?.contentHash !== contentHash) return false;
+  if (!isDocument) return true;
+
+  const row = await env.GOVERNANCE_DB
+    .prepare(`SELECT content_hash FROM documents WHERE r2_key = ? AND status != 'retired'`)
+    .bind(r2Key)
+    .first<{ content_hash: string | null }>();
+  return row?.content_hash === contentHash;
+}
+
+async function findDocumentBySlug(db: D1Database, slug: string, ref: string): Promise<{ id: string } | null> {
+  return db
+    .prepare(`
+      SELECT id FROM documents WHERE ref = ?1 AND slug = ?2
+      UNION ALL
+      SELECT document_id AS id FROM document_aliases WHERE ref = ?1 AND slug = ?2
+      LIMIT 1
+    `)
+    .bind(ref, slug)
+    .first<{ id: string }>();
+}
+
+/**
+ * Converge the domains table onto the parsed file, in one transaction.
+ * New domains get the ID "dom-<slug>"; existing rows keep theirs. Domains the
+ * file does not list are flagged with removed_at, never deleted.
+ */
+async function upsertDomains(db: D1Database, domains: ParsedDomain[], listed: string[]): Promise<string[]> {
+  const upserts = domains.map((domain) =>
+    db
+      .prepare(`
+        INSERT INTO domains (id, slug, name, domain_type, hat_id, description, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+        ON CONFLICT(slug) DO UPDATE SET
+          name = excluded.name,
+          domain_type = excluded.domain_type,
+          hat_id = excluded.hat_id,
+          description = excluded.description,
+          removed_at = NULL,
+          updated_at = excluded.updated_at
+      `)
+      .bind(`dom-${domain.slug}`, domain.slug, domain.name, domain.domainType, domain.hatId ?? null, domain.description ?? null),
+  );
+  // Parents are linked once every domain in the file exists
+  const parents = domains.map((domain) =>
+    db
+      .prepare('UPDATE domains SET parent_id = (SELECT id FROM domains WHERE slug = ?) WHERE slug = ?')
+      .bind(domain.parentSlug ?? null, domain.slug),
+  );
+  const flag = db
+    .prepare(`
+      UPDATE domains SET removed_at = datetime('now'), updated_at = datetime('now')
+      WHERE removed_at IS NULL AND slug NOT IN (SELECT value FROM json_each(?))
+      RETURNING slug
+    `)
+    .bind(JSON.stringify(listed));
+
+  const results = await db.batch<{ slug: string }>([...upserts, ...parents, flag]);
+  return (results[results.length - 1].results ?? []).map((row) => row.slug);
+}
+
+async function upsertDocument(
+  db: D1Database,
+  parsed: NonNullable<ReturnType<typeof parseGovernanceDocument>>,
+  content: string,
+  r2Key: string,
+  contentHash: string,
+  ref: string,
+): Promise<SyncOutcome> {
+  const {
+    slug, type, title, status, effectiveFrom, effectiveTo, enactedBy, versionNote, domains, relationships, scope,
+  } = parsed;
+
+  const existing = await db
+    .prepare('SELECT id FROM documents WHERE ref = ? AND slug = ?')
+    .bind(ref, slug)
+    .first<{ id: string }>();
+
+  // Upsert document. An existing row keeps its ID (it may predate a frontmatter
+  // `id` or a rename), so everything below keys off the stored ID.
+  const stored = await db
+    .prepare(`
+      INSERT INTO documents (id, ref, slug, type, title, status, effective_from, effective_to, content_hash, enacted_by, r2_key, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(ref, slug) DO UPDATE SET
+        type = excluded.type,
+        title = excluded.title,
+        status = excluded.status,
+        effective_from = excluded.effective_from,
+        effective_to = excluded.effective_to,
+        content_hash = excluded.content_hash,
+        enacted_by = excluded.enacted_by,
+        r2_key = excluded.r2_key,
+        updated_at = excluded.updated_at
+      RETURNING id
+    `)
+    .bind(documentIdForRef(parsed.id, ref), ref, slug, type, title, status, effectiveFrom ?? null, effectiveTo ?? null, contentHash, enactedBy ?? null, r2Key)
+    .first<{ id: string }>();
+  const id = stored!.id;
+
+  // Upsert domain associations
+  for (const domainSlug of domains) {
+    const domain = await db
+      .prepare('SELECT id FROM domains WHERE slug = ?')
+      .bind(domainSlug)
+      .first<{ id: string }>();
+    if (domain) {
+      await db
+        .prepare('INSERT OR IGNORE INTO document_domains (document_id, domain_id) VALUES (?, ?)')
+        .bind(id, domain.id)
+        .run();
+    }
+  }
+
+  // Rebuild outgoing relationships, this document's own version rows and its
+  // search index entry. Targets that have not been synced yet are parked in
+  // pending_relationships and resolved at the end of the run.
+  await db.batch([
+    db.prepare('DELETE FROM document_relationships WHERE from_id = ?').bind(id),
+    db.prepare('DELETE FROM pending_relationships WHERE from_id = ?').bind(id),
+    db.prepare('DELETE FROM document_versions WHERE document_id = ?').bind(id),
+    db.prepare('DELETE FROM document_aliases WHERE ref = ? AND slug = ?').bind(ref, slug),
+    db.prepare('DELETE FROM document_search WHERE document_id = ?').bind(id),
+    db.prepare('INSERT INTO document_search (document_id, title, body) VALUES (?, ?, ?)')
+      .bind(id, title, renderPlainText(stripFrontmatter(content))),
+  ]);
+  for (const rel of relationships) {
+    const target = await findDocumentBySlug(db, rel.targetSlug, ref);
+    if (target) {
+      const relId = `${id}:${rel.type}:${target.id}`;
+      await db
+        .prepare(`
+          INSERT OR IGNORE INTO document_relationships (id, from_id, to_id, relationship_type)
+          VALUES (?, ?, ?, ?)
+        `)
+        .bind(relId, id, target.id, rel.type)
+        .run();
+      if (rel.type === 'supersedes') {
+        await applySupersession(db, id, target.id, versionNote);
+      }
+    } else {
+      await db
+        .prepare(`
+          INSERT OR IGNORE INTO pending_relationships (from_id, target_slug, relationship_type, version_note)
+          VALUES (?, ?, ?, ?)
+        `)
+        .bind(id, rel.targetSlug, rel.type, rel.type === 'supersedes' ? versionNote ?? null : null)
+        .run();
+    }
+  }
+
+  // Re-syncing a predecessor must not undo its supersession
+  const successors = await db
+    .prepare('SELECT document_id FROM document_versions WHERE predecessor_id = ?')
+    .bind(id)
+    .all<{ document_id: string }>();
+  for (const successor of successors.results ?? []) {
+    await closePredecessor(db, successor.document_id, id);
+  }
+
+  // Replace scope rows — frontmatter is the whole truth for a document's scope
+  await db.batch([
+    db.prepare('DELETE FROM document_scope WHERE document_id = ?').bind(id),
+    ...scope.map((entry) =>
+      db
+        .prepare(`
+          INSERT OR IGNORE INTO document_scope (id, document_id, entity_type, entity_id, scope_relation)
+          VALUES (?, ?, ?, ?, ?)
+        `)
+        .bind(`${id}:${entry.relation}:${entry.entityType}:${entry.entityId}`, id, entry.entityType, entry.entityId, entry.relation),
+    ),
+  ]);
+
+  return existing ? 'updated' : 'added';
+}
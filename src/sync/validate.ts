@@ -0,0 +1,182 @@
+/**
+ * Pull-request validation — a dry run of sync against a PR's head commit.
+ *
+ * Triggered by GitHub webhook pull_request events (opened, synchronize,
+ * reopened, ready_for_review) targeting main. Changed markdown files are parsed
+ * with the same parser and domain checks as sync, and every relationship is
+ * resolved against the documents main would hold once the PR merged: D1 slugs,
+ * minus files the PR removes, plus documents the PR adds. A changed
+ * DOMAINS_FILE is validated too, and documents are checked against the domains
+ * it lists rather than the synced ones.
+ *
+ * Nothing is written to R2 or D1. D1 is only read; the report goes to
+ * SYNC_STATE under 'validation:<sha>' and is summarised as a commit status.
+ */
+
+import { createCommitStatus, fetchFilesFromGitHub, listPullRequestFiles } from './github';
+import { DOMAINS_FILE, parseDomainsFile, parseGovernanceDocument } from './parser';
+import { checkDomains, r2KeyForPath } from './store';
+import { MAIN_REF } from './refs';
+import type { SyncDiagnostic, ValidationReport } from '../types/sync';
+
+const STATUS_CONTEXT = 'governance-server/frontmatter';
+const REPORT_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+const REPORT_KEY_PREFIX = 'validation:';
+
+export interface ValidationParams {
+  pullRequest: number;
+  commitSha: string;
+  /** Origin the commit status links back to, e.g. https://governance.superbenefit.dev */
+  reportOrigin: string;
+}
+
+/**
+ * Validate a pull request's head commit and publish the result as a commit status.
+ * Failures while validating are published as an 'error' status before rethrowing.
+ */
+export async function validatePullRequest(env: Env, params: ValidationParams): Promise<ValidationReport> {
+  const { pullRequest, commitSha, reportOrigin } = params;
+  const targetUrl = `${reportOrigin}/api/v1/sync/validations/${commitSha}`;
+
+  await createCommitStatus(commitSha, {
+    state: 'pending',
+    context: STATUS_CONTEXT,
+    description: 'Validating governance frontmatter',
+  }, env);
+
+  try {
+    const report = await buildReport(env, pullRequest, commitSha);
+    await env.SYNC_STATE.put(`${REPORT_KEY_PREFIX}${commitSha}`, JSON.stringify(report), {
+      expirationTtl: REPORT_TTL_SECONDS,
+    });
+    await createCommitStatus(commitSha, {
+      state: report.errors > 0 ? 'failure' : 'success',
+      context: STATUS_CONTEXT,
+      description: `${report.errors} error(s), ${report.warnings} warning(s) in ${report.filesChecked} file(s)`,
+      targetUrl,
+    }, env);
+    return report;
+  } catch (err) {
+    await createCommitStatus(commitSha, {
+      state: 'error',
+      context: STATUS_CONTEXT,
+      description: `Validation failed: ${err instanceof Error ? err.message : String(err)}`,
+    }, env);
+    throw err;
+  }
+}
+
+/**
+ * Read a stored validation report by head commit SHA.
+ */
+export async function getValidationReport(env: Env, commitSha: string): Promise<ValidationReport | null> {
+  const raw = await env.SYNC_STATE.get(`${REPORT_KEY_PREFIX}${commitSha}`);
+  return raw ? (JSON.parse(raw) as ValidationReport) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+async function buildReport(env: Env, pullRequest: number, commitSha: string): Promise<ValidationReport> {
+  const db = env.GOVERNANCE_DB;
+  const prFiles = await listPullRequestFiles(pullRequest, env);
+  const markdownFiles = prFiles.filter((f) => f.filename.endsWith('.md'));
+  const domainsChanged = prFiles.some((f) => f.filename === DOMAINS_FILE && f.status !== 'removed');
+
+  const changedPaths = markdownFiles.filter((f) => f.status !== 'removed').map((f) => f.filename);
+  // A renamed file's old slug survives the merge as an alias, so only removals count
+  const removedPaths = markdownFiles.filter((f) => f.status === 'removed').map((f) => f.filename);
+
+  const contents = await fetchFilesFromGitHub(domainsChanged ? [...changedPaths, DOMAINS_FILE] : changedPaths, commitSha, env);
+
+  // The proposed domain list, when the PR changes it; documents are checked against it
+  const domainDiagnostics: SyncDiagnostic[] = [];
+  let listedDomains: string[] | undefined;
+  if (domainsChanged) {
+    const content = contents[DOMAINS_FILE];
+    if (content === undefined) {
+      domainDiagnostics.push({ severity: 'error', code: 'fetch_failed', message: `Could not fetch ${DOMAINS_FILE} at ${commitSha}` });
+    } else {
+      listedDomains = parseDomainsFile(content, domainDiagnostics)?.listed;
+    }
+  }
+
+  // Parse everything first so relationships between files in the same PR resolve
+  const parsedFiles: Array<{ path: string; parsed: ReturnType<typeof parseGovernanceDocument>; diagnostics: SyncDiagnostic[] }> = domainsChanged
+    ? [{ path: DOMAINS_FILE, parsed: null, diagnostics: domainDiagnostics }]
+    : [];
+  for (const path of changedPaths) {
+    const content = contents[path];
+    const diagnostics: SyncDiagnostic[] = [];
+    if (content === undefined) {
+      diagnostics.push({ severity: 'error', code: 'fetch_failed', message: `Could not fetch ${path} at ${commitSha}` });
+      parsedFiles.push({ path, parsed: null, diagnostics });
+      continue;
+    }
+    const parsed = parseGovernanceDocument(path, content, diagnostics);
+    if (parsed) {
+      diagnostics.push(...await checkDomains(db, parsed.domains, listedDomains));
+    }
+    parsedFiles.push({ path, parsed, diagnostics });
+  }
+
+  const knownSlugs = await resolvableSlugs(db, removedPaths, changedPaths);
+  for (const { parsed } of parsedFiles) {
+    if (parsed) knownSlugs.add(parsed.slug);
+  }
+
+  // Unlike sync, an unresolved target here is an error: nothing later in the
+  // merge can supply it.
+  for (const { parsed, diagnostics } of parsedFiles) {
+    for (const rel of parsed?.relationships ?? []) {
+      if (!knownSlugs.has(rel.targetSlug)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'unresolved_relationship',
+          message: `${rel.type} target "${rel.targetSlug}" does not exist on main or in this pull request`,
+        });
+      }
+    }
+  }
+
+  const files = parsedFiles
+    .filter((f) => f.diagnostics.length > 0)
+    .map(({ path, diagnostics }) => ({ path, diagnostics }));
+  const all = files.flatMap((f) => f.diagnostics);
+
+  return {
+    commitSha,
+    pullRequest,
+    checkedAt: new Date().toISOString(),
+    filesChecked: parsedFiles.length,
+    errors: all.filter((d) => d.severity === 'error').length,
+    warnings: all.filter((d) => d.severity === 'warning').length,
+    files,
+  };
+}
+
+/**
+ * Slugs a relationship may target after merge: every D1 document except those
+ * stored at a path the PR removes or rewrites (the rewrite is re-added by slug),
+ * plus former slugs of documents the PR does not remove.
+ */
+async function resolvableSlugs(db: D1Database, removedPaths: string[], changedPaths: string[]): Promise<Set<string>> {
+  const { results } = await db
+    .prepare(`
+      SELECT slug, r2_key, 0 AS alias FROM documents WHERE ref = ?1
+      UNION ALL
+      SELECT a.slug, d.r2_key, 1 AS alias FROM document_aliases a
+      INNER JOIN documents d ON d.id = a.document_id
+      WHERE a.ref = ?1
+    `)
+    .bind(MAIN_REF)
+    .all<{ slug: string; r2_key: string; alias: number }>();
+  const removedKeys = new Set(removedPaths.map((path) => r2KeyForPath(path)));
+  const replacedKeys = new Set(changedPaths.map((path) => r2KeyForPath(path)));
+  return new Set(
+    (results ?? [])
+      .filter((r) => !removedKeys.has(r.r2_key) && (r.alias === 1 || !replacedKeys.has(r.r2_key)))
+      .map((r) => r.slug),
+  );
+}
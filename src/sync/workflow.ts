@@ -1,159 +1,205 @@
 /**
  * GovernanceSyncWorkflow — durable sync of governance repo content to R2 + D1.
  *
- * Triggered by GitHub webhook push events.
+ * Triggered by GitHub webhook push events to main and to preview branches
+ * matching SYNC_BRANCHES; each branch writes only its own namespace (see ./refs.ts).
  * Mirrors the knowledge-server KnowledgeSyncWorkflow pattern.
  *
  * Steps:
  *   1. Fetch changed files from GitHub
- *   2. Parse frontmatter and extract structured records
- *   3. Write raw markdown to R2
- *   4. Upsert records to D1 (documents, domains, relationships)
- *   5. Delete removed files from R2 and D1
+ *   2. Sync domains.yml, when changed on main, before any document references a new domain
+ *   3. Detect renamed/moved files and migrate their documents to the new path
+ *   4. Parse frontmatter and extract structured records
+ *   5. Write raw markdown to R2
+ *   6. Upsert records to D1 (documents, domains, relationships)
+ *   7. Delete removed files from R2 and D1
+ *   8. Resolve relationships whose target was synced later in the run
+ *   9. Snapshot every document the commit changed (see recordSnapshots)
+ *
+ * Frontmatter problems are recorded per file in sync_diagnostics, keyed by commit.
+ * Each instance is recorded in sync_runs (see ./runs.ts).
+ *
+ * Files whose SHA-256 matches the stored content_hash are skipped entirely.
+ *
+ * Only files named in the push payload are touched. Drift from missed webhooks
+ * is repaired by GovernanceReconcileWorkflow (see ./reconcile.ts).
  */
 
-import { WorkflowEntrypoint, WorkflowStep } from 'cloudflare:workers';
-import { parseGovernanceDocument } from './parser';
+import { WorkflowEntrypoint, WorkflowStep, type WorkflowEvent } from 'cloudflare:workers';
+import { compareCommits, fetchFilesFromGitHub, resolveCommit } from './github';
+import { recordRunStart, recordRunFinish } from './runs';
+import {
+  syncDocumentFile,
+  retireDocument,
+  resolvePendingRelationships,
+  recordUnresolvedRelationships,
+  renameDocument,
+  recordSnapshots,
+  syncDomainsFile,
+  hashContent,
+  r2KeyForPath,
+} from './store';
+import { MAIN_REF } from './refs';
+import { DOMAINS_FILE } from './parser';
 
 interface SyncParams {
   changedFiles: string[];
   deletedFiles: string[];
   commitSha: string;
+  /** Push `before` SHA — the compare base for rename detection. All zeros for a new branch. */
+  previousCommitSha?: string;
+  /** Branch the push landed on. Defaults to main. */
+  ref?: string;
+  /** Timestamp of the pushed head commit. Looked up from GitHub when absent. */
+  committedAt?: string;
 }
 
 export class GovernanceSyncWorkflow extends WorkflowEntrypoint<Env, SyncParams> {
-  async run(event: { payload: SyncParams }, step: WorkflowStep): Promise<void> {
+  async run(event: WorkflowEvent<SyncParams>, step: WorkflowStep): Promise<void> {
     const { changedFiles, deletedFiles, commitSha } = event.payload;
 
-    // Step 1: Fetch file contents from GitHub
-    const fileContents = await step.do('fetch-files', async () => {
-      return fetchFilesFromGitHub(changedFiles, this.env);
+    const startedAt = await step.do('record-start', async () => {
+      return recordRunStart(this.env.GOVERNANCE_DB, {
+        id: event.instanceId,
+        workflow: 'sync',
+        trigger: 'push',
+        ref: event.payload.ref ?? MAIN_REF,
+        commitSha,
+      });
     });
 
-    // Step 2: Write to R2 + parse + upsert D1
-    for (const [path, content] of Object.entries(fileContents)) {
-      await step.do(`sync-file:${path}`, async () => {
-        // Write raw markdown to R2
-        const r2Key = `governance/${path}`;
-        await this.env.GOVERNANCE_CONTENT.put(r2Key, content, {
-          customMetadata: { commitSha, syncedAt: new Date().toISOString() },
+    try {
+      await this.syncCommit(event.payload, step);
+    } catch (err) {
+      await step.do('record-failure', async () => {
+        await recordRunFinish(this.env.GOVERNANCE_DB, event.instanceId, {
+          status: 'failed',
+          startedAt,
+          filesProcessed: 0,
+          error: err instanceof Error ? err.message : String(err),
         });
+      });
+      throw err;
+    }
 
-        // Parse frontmatter and upsert D1
-        const parsed = parseGovernanceDocument(path, content);
-        if (parsed) {
-          await upsertDocument(this.env.GOVERNANCE_DB, parsed, r2Key);
-        }
+    await step.do('record-finish', async () => {
+      await recordRunFinish(this.env.GOVERNANCE_DB, event.instanceId, {
+        status: 'succeeded',
+        startedAt,
+        filesProcessed: changedFiles.length + deletedFiles.length,
+      });
+    });
+  }
+
+  private async syncCommit(params: Readonly<SyncParams>, step: WorkflowStep): Promise<void> {
+    const { changedFiles, deletedFiles, commitSha } = params;
+    const ref = params.ref ?? MAIN_REF;
+
+    // Step 1: Fetch file contents from GitHub at the pushed commit
+    const { [DOMAINS_FILE]: domainsYaml, ...fileContents } = await step.do('fetch-files', async () => {
+      return fetchFilesFromGitHub(changedFiles, commitSha, this.env);
+    });
+
+    // Step 2: Domains are shared by every ref, so only main's file defines them.
+    // Deleting the file leaves domains as they are rather than flagging them all.
+    if (domainsYaml !== undefined && ref === MAIN_REF) {
+      await step.do('sync-domains', async () => {
+        return syncDomainsFile(this.env.GOVERNANCE_DB, domainsYaml, commitSha);
       });
     }
 
-    // Step 3: Delete removed files
+    // Step 3: Move renamed documents to their new path so the sync below updates
+    // the existing row instead of retiring it and creating a new one
+    const renames = await step.do('detect-renames', async () => {
+      return detectRenames(this.env, params, fileContents);
+    });
+    for (const { from, to } of renames) {
+      await step.do(`rename-file:${from}`, async () => {
+        return renameDocument(this.env.GOVERNANCE_DB, from, to, fileContents[to], commitSha, ref);
+      });
+    }
+
+    // Step 4: Write to R2 + parse + upsert D1
+    for (const [path, content] of Object.entries(fileContents)) {
+      await step.do(`sync-file:${path}`, async () => {
+        await syncDocumentFile(this.env, path, content, commitSha, { ref });
+      });
+    }
+
+    // Step 5: Delete removed files (a renamed document no longer sits at its old key)
     for (const path of deletedFiles) {
       await step.do(`delete-file:${path}`, async () => {
-        const r2Key = `governance/${path}`;
+        const r2Key = r2KeyForPath(path, ref);
         await this.env.GOVERNANCE_CONTENT.delete(r2Key);
-        await deleteDocument(this.env.GOVERNANCE_DB, path);
+        await retireDocument(this.env.GOVERNANCE_DB, r2Key);
       });
     }
+
+    // Step 6: Second relationship pass for forward references
+    await step.do('resolve-relationships', async () => {
+      const resolved = await resolvePendingRelationships(this.env.GOVERNANCE_DB);
+      await recordUnresolvedRelationships(this.env.GOVERNANCE_DB, commitSha, Object.keys(fileContents), ref);
+      return resolved;
+    });
+
+    // Step 7: Immutable history for time-travel queries
+    await step.do('record-snapshots', async () => {
+      const committedAt = params.committedAt
+        ? new Date(params.committedAt).toISOString()
+        : (await resolveCommit(commitSha, this.env)).committedAt;
+      return recordSnapshots(this.env, ref, commitSha, committedAt);
+    });
   }
 }
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-async function fetchFilesFromGitHub(
-  paths: string[],
+/**
+ * Pair removed files with changed files that are the same document moved.
+ * GitHub's compare API reports renames directly; removed files it does not pair
+ * (no usable base commit, or a move with edits under GitHub's similarity
+ * threshold) fall back to an exact content-hash match against the stored row.
+ */
+async function detectRenames(
   env: Env,
-): Promise<Record<string, string>> {
-  const results: Record<string, string> = {};
-  await Promise.all(
-    paths.map(async (path) => {
-      const url = `https://raw.githubusercontent.com/${env.GOVERNANCE_REPO}/main/${path}`;
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${env.GITHUB_TOKEN}`,
-          'User-Agent': 'superbenefit-governance-server',
-        },
-      });
-      if (response.ok) {
-        results[path] = await response.text();
-      } else {
-        console.warn(`Could not fetch ${path}: ${response.status}`);
+  params: Readonly<SyncParams>,
+  contents: Record<string, string>,
+): Promise<Array<{ from: string; to: string }>> {
+  const { deletedFiles, commitSha, previousCommitSha, ref = MAIN_REF } = params;
+  if (deletedFiles.length === 0 || Object.keys(contents).length === 0) return [];
+
+  const deleted = new Set(deletedFiles);
+  const renames = new Map<string, string>(); // new path → old path
+
+  if (previousCommitSha && !/^0+$/.test(previousCommitSha)) {
+    try {
+      for (const file of await compareCommits(previousCommitSha, commitSha, env)) {
+        if (file.status === 'renamed' && file.previous_filename && deleted.has(file.previous_filename) && file.filename in contents) {
+          renames.set(file.filename, file.previous_filename);
+        }
       }
-    }),
-  );
-  return results;
-}
-
-async function upsertDocument(
-  db: D1Database,
-  parsed: ReturnType<typeof parseGovernanceDocument>,
-  r2Key: string,
-): Promise<void> {
-  if (!parsed) return;
-
-  const { id, slug, type, title, status, effectiveFrom, effectiveTo, enactedBy, domains, relationships, scope } = parsed;
-
-  // Upsert document
-  await db
-    .prepare(`
-      INSERT INTO documents (id, slug, type, title, status, effective_from, effective_to, enacted_by, r2_key, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
-      ON CONFLICT(slug) DO UPDATE SET
-        title = excluded.title,
-        status = excluded.status,
-        effective_from = excluded.effective_from,
-        effective_to = excluded.effective_to,
-        enacted_by = excluded.enacted_by,
-        r2_key = excluded.r2_key,
-        updated_at = excluded.updated_at
-    `)
-    .bind(id, slug, type, title, status, effectiveFrom ?? null, effectiveTo ?? null, enactedBy ?? null, r2Key)
-    .run();
-
-  // Upsert domain associations
-  for (const domainSlug of domains) {
-    const domain = await db
-      .prepare('SELECT id FROM domains WHERE slug = ?')
-      .bind(domainSlug)
-      .first<{ id: string }>();
-    if (domain) {
-      await db
-        .prepare('INSERT OR IGNORE INTO document_domains (document_id, domain_id) VALUES (?, ?)')
-        .bind(id, domain.id)
-        .run();
+    } catch (err) {
+      console.error('Compare failed, falling back to content hashes:', err);
     }
   }
 
-  // Upsert relationships (requires both documents to exist)
-  for (const rel of relationships) {
-    const target = await db
-      .prepare('SELECT id FROM documents WHERE slug = ?')
-      .bind(rel.targetSlug)
-      .first<{ id: string }>();
-    if (target) {
-      const relId = `${id}:${rel.type}:${target.id}`;
-      await db
-        .prepare(`
-          INSERT OR IGNORE INTO document_relationships (id, from_id, to_id, relationship_type)
-          VALUES (?, ?, ?, ?)
-        `)
-        .bind(relId, id, target.id, rel.type)
-        .run();
+  const paired = new Set(renames.values());
+  const storedByHash = new Map<string, string>();
+  for (const path of deletedFiles.filter((p) => !paired.has(p))) {
+    const row = await env.GOVERNANCE_DB
+      .prepare(`SELECT content_hash FROM documents WHERE r2_key = ? AND status != 'retired'`)
+      .bind(r2KeyForPath(path, ref))
+      .first<{ content_hash: string | null }>();
+    if (row?.content_hash) storedByHash.set(row.content_hash, path);
+  }
+  if (storedByHash.size > 0) {
+    for (const path of Object.keys(contents).filter((p) => !renames.has(p))) {
+      const hash = await hashContent(contents[path]);
+      const from = storedByHash.get(hash);
+      if (from) {
+        renames.set(path, from);
+        storedByHash.delete(hash);
+      }
     }
   }
-}
-
-async function deleteDocument(db: D1Database, path: string): Promise<void> {
-  const slug = pathToSlug(path);
-  // Mark as retired rather than hard delete (preserves history)
-  await db
-    .prepare(`UPDATE documents SET status = 'retired', updated_at = datetime('now') WHERE slug = ?`)
-    .bind(slug)
-    .run();
-}
 
-function pathToSlug(path: string): string {
-  return path.replace(/^(agreements|policies)\//, '').replace(/\.md$/, '').replace(/\//g, '-');
+  return [...renames].map(([to, from]) => ({ from, to }));
 }
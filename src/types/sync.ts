@@ -2,9 +2,13 @@ export interface GitHubPushEvent {
   ref: string;
   after: string;
   before: string;
+  created?: boolean;
+  deleted?: boolean;
+  head_commit: { id: string; timestamp: string } | null;
   commits: Array<{
     id: string;
     message: string;
+    timestamp: string;
     added: string[];
     modified: string[];
     removed: string[];
@@ -13,3 +17,55 @@ export interface GitHubPushEvent {
     full_name: string;
   };
 }
+
+export interface GitHubPullRequestEvent {
+  action: string;
+  number: number;
+  pull_request: {
+    head: { sha: string; ref: string };
+    base: { ref: string };
+  };
+  repository: {
+    full_name: string;
+  };
+}
+
+/** Result of a full-repository reconcile run, persisted to SYNC_STATE under 'reconcile:last'. */
+export interface ReconcileSummary {
+  commitSha: string;
+  startedAt: string;
+  finishedAt: string;
+  filesScanned: number;
+  added: string[];
+  updated: string[];
+  unchanged: number;
+  retired: string[];
+  prunedObjects: number;
+}
+
+/**
+ * A frontmatter or sync problem found in one file.
+ * Codes: missing_frontmatter, invalid_frontmatter, missing_type, unknown_type, unknown_status,
+ * missing_title, invalid_date, invalid_date_range, invalid_related_entry, invalid_relationship_type,
+ * invalid_scope_entry, unknown_scope_relation, unknown_domain, unresolved_relationship,
+ * fetch_failed (pull-request validation only).
+ */
+export interface SyncDiagnostic {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+}
+
+/**
+ * Dry-run validation of a pull request's head commit, persisted to SYNC_STATE
+ * under 'validation:<sha>' and linked from the published commit status.
+ */
+export interface ValidationReport {
+  commitSha: string;
+  pullRequest: number;
+  checkedAt: string;
+  filesChecked: number;
+  errors: number;
+  warnings: number;
+  files: Array<{ path: string; diagnostics: SyncDiagnostic[] }>;
+}
@@ -0,0 +1,48 @@
+import { Hono } from 'hono';
+import { describe, expect, it } from 'vitest';
+import { documentContentResponse } from '../src/api/content';
+import { renderHtml } from '../src/data/content';
+import type { Document } from '../src/data/db';
+
+describe('renderHtml links', () => {
+  it.each([
+    ['a tab in the scheme', '[a](<java\tscript:alert(1)>)'],
+    ['a newline reference in the scheme', '[a](java&#10;script:alert(1))'],
+    ['a tab reference in the scheme', '[a](java&Tab;script:alert(1))'],
+    ['a leading control character', '[a](<\u0001javascript:alert(1)>)'],
+    ['an entity-encoded scheme', '[a](&#106;avascript&colon;alert(1))'],
+    ['a hex entity-encoded scheme', '[a](&#x6A;&#x61;vascript:alert(1))'],
+    ['a data: URL', '[a](data:text/html,<script>alert(1)</script>)'],
+  ])('drops a link with %s', (_, markdown) => {
+    expect(renderHtml(markdown)).toBe('<p>a</p>\n');
+  });
+
+  it('drops an image with a hidden scheme, keeping its alt text', () => {
+    expect(renderHtml('![diagram](<java\tscript:alert(1)>)')).toBe('<p>diagram</p>\n');
+  });
+
+  it('leaves a newline inside a link target as text', () => {
+    expect(renderHtml('[a](<java\nscript:alert(1)>)')).not.toContain('<a');
+  });
+
+  it.each(['https://superbenefit.org/x', 'mailto:hello@superbenefit.org', '/policies/x', '#purpose', 'other-policy'])(
+    'keeps %s',
+    (href) => {
+      expect(renderHtml(`[a](${href})`)).toBe(`<p><a href="${href}">a</a></p>\n`);
+    },
+  );
+});
+
+describe('documentContentResponse', () => {
+  it('serves HTML with a policy that blocks scripts', async () => {
+    const app = new Hono<{ Bindings: Env }>();
+    app.get('/', (c) => documentContentResponse(c, { id: 'x', slug: 'x', title: 'X', r2Key: 'x.md' } as Document));
+    const env = { GOVERNANCE_CONTENT: { get: async () => ({ text: async () => '# X\n' }) } } as unknown as Env;
+
+    const response = await app.request('/', { headers: { Accept: 'text/html' } }, env);
+
+    expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(response.headers.get('Content-Security-Policy')).toBe("default-src 'none'; style-src 'unsafe-inline'; img-src https: data:");
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+  });
+});
@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { queryDocumentDetail } from '../src/data/db';
+import { createBindings, type Bindings } from './stand-ins';
+
+let bindings: Bindings;
+
+beforeEach(async () => {
+  bindings = await createBindings();
+});
+
+afterEach(() => bindings.dispose());
+
+describe('queryDocumentDetail asOf a date', () => {
+  it('finds the version in force along a lineage longer than D1 can bind', async () => {
+    // policy-0 … policy-100, each superseding the one before and in force for one day
+    const db = bindings.GOVERNANCE_DB;
+    const day = (n: number) => new Date(Date.UTC(2024, 0, 1 + n)).toISOString().slice(0, 10);
+    const statements: D1PreparedStatement[] = [];
+    for (let n = 0; n <= 100; n++) {
+      statements.push(db
+        .prepare(`
+          INSERT INTO documents (id, slug, type, title, status, effective_from, effective_to)
+          VALUES (?, ?, 'policy', ?, ?, ?, ?)
+        `)
+        .bind(`policy-${n}`, `policy-${n}`, `Policy ${n}`, n === 100 ? 'active' : 'superseded', day(n), n === 100 ? null : day(n + 1)));
+      statements.push(db
+        .prepare('INSERT INTO document_versions (id, document_id, predecessor_id) VALUES (?, ?, ?)')
+        .bind(`v-${n}`, `policy-${n}`, n === 0 ? null : `policy-${n - 1}`));
+    }
+    await db.batch(statements);
+
+    const detail = await queryDocumentDetail(db, 'policy-50', 'main', { date: day(20) });
+
+    expect(detail).toMatchObject({ id: 'policy-20', effectiveFrom: day(20) });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseGovernanceDocument } from '../src/sync/parser';
+import type { SyncDiagnostic } from '../src/types/sync';
+
+function parse(frontmatter: string) {
+  const diagnostics: SyncDiagnostic[] = [];
+  const parsed = parseGovernanceDocument('policies/test-policy.md', `---\ntitle: Test Policy\ntype: policy\nstatus: draft\n${frontmatter}\n---\n\nBody.\n`, diagnostics);
+  return { parsed, diagnostics };
+}
+
+describe('parseGovernanceDocument dates', () => {
+  it.each(['2025-13-45', '2025-02-30', '"2025-13-45"', '"2025-02-30"', 'June 1'])(
+    'reports %s as an invalid date instead of rolling it over',
+    (value) => {
+      const { parsed, diagnostics } = parse(`effective_from: ${value}`);
+
+      expect(parsed?.effectiveFrom).toBeUndefined();
+      expect(diagnostics).toEqual([expect.objectContaining({ severity: 'error', code: 'invalid_date' })]);
+    },
+  );
+
+  it.each([['2024-02-29', '2024-02-29'], ['"2025-06-01"', '2025-06-01']])('accepts %s', (value, expected) => {
+    const { parsed, diagnostics } = parse(`effective_from: ${value}`);
+
+    expect(parsed?.effectiveFrom).toBe(expected);
+    expect(diagnostics).toEqual([]);
+  });
+});
+
+describe('parseGovernanceDocument numeric IDs', () => {
+  // 2^255 + 1: far past Number.MAX_SAFE_INTEGER, so a JS number would round it
+  const HAT_ID = '57896044618658097711785492504343953926634992332820282019728792003956564819969';
+
+  it('keeps an unquoted 256-bit decimal hat ID as written', () => {
+    const { parsed, diagnostics } = parse(`scope:\n  - hat: ${HAT_ID}\n  - ${HAT_ID}`);
+
+    expect(parsed?.scope).toEqual([
+      { entityType: 'hat', entityId: HAT_ID, relation: 'governs' },
+      { entityType: 'hat', entityId: HAT_ID, relation: 'governs' },
+    ]);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('keeps hex and zero-padded IDs as written', () => {
+    const { parsed } = parse('scope:\n  - hat: 0x0000001c00010001\n  - hat: 00042');
+
+    expect(parsed?.scope.map((s) => s.entityId)).toEqual(['0x0000001c00010001', '00042']);
+  });
+});
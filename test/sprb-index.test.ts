@@ -0,0 +1,213 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { buildMembersPayload, fetchMember, fetchMembers, TRANSFER_TOPIC } from '../src/data/sources/sprb';
+import { indexSprbTransfers } from '../src/data/sprb-index';
+import { createBindings, startStandIn, type Bindings, type StandIn } from './stand-ins';
+
+const CONTRACT = '0x00000000000000000000000000000000000005b0';
+const ZERO = '0x0000000000000000000000000000000000000000';
+const ALICE = '0x000000000000000000000000000000000000a11c';
+const BOB = '0x0000000000000000000000000000000000000b0b';
+const ETH = 10n ** 18n;
+
+// The chain the RPC stand-in serves
+const MAX_LOG_SPAN = 500; // like a hosted provider, eth_getLogs rejects wider ranges
+const TRANSFERS: Array<{ block: number; logIndex: number; from: string; to: string; value: bigint }> = [
+  { block: 150, logIndex: 0, from: ZERO, to: ALICE, value: 5n * ETH },
+  { block: 600, logIndex: 3, from: ALICE, to: BOB, value: 2n * ETH },
+  { block: 990, logIndex: 1, from: BOB, to: ZERO, value: 2n * ETH }, // within 12 confirmations of head 1000
+];
+let head: number;
+
+let rpc: StandIn;
+let bindings: Bindings;
+let env: Env;
+
+beforeAll(async () => {
+  rpc = await startStandIn(({ body }) => {
+    const { id, method, params } = body as { id: number; method: string; params: unknown[] };
+    const reply = (result: unknown) => ({ body: { jsonrpc: '2.0', id, result } });
+    switch (method) {
+      case 'eth_blockNumber':
+        return reply(hex(head));
+      case 'eth_getBlockByNumber':
+        return reply({ number: params[0], timestamp: hex(1_700_000_000 + Number(params[0]) * 12) });
+      case 'eth_getLogs': {
+        const filter = params[0] as { address: string; topics: string[]; fromBlock: string; toBlock: string };
+        const [from, to] = [Number(filter.fromBlock), Number(filter.toBlock)];
+        if (to - from + 1 > MAX_LOG_SPAN) {
+          return { body: { jsonrpc: '2.0', id, error: { code: -32005, message: `block range exceeds ${MAX_LOG_SPAN}` } } };
+        }
+        if (to > head) {
+          return { body: { jsonrpc: '2.0', id, error: { code: -32000, message: 'block range extends beyond head' } } };
+        }
+        return reply(TRANSFERS
+          .filter((t) => filter.address === CONTRACT && filter.topics[0] === TRANSFER_TOPIC && t.block >= from && t.block <= to)
+          .map((t) => ({
+            address: CONTRACT,
+            blockNumber: hex(t.block),
+            logIndex: hex(t.logIndex),
+            transactionHash: `0x${t.block.toString(16).padStart(64, '0')}`,
+            topics: [TRANSFER_TOPIC, topic(t.from), topic(t.to)],
+            data: hex(t.value),
+          })));
+      }
+      default:
+        return { body: { jsonrpc: '2.0', id, error: { code: -32601, message: `${method} not supported` } } };
+    }
+  });
+});
+
+afterAll(() => rpc.close());
+
+beforeEach(async () => {
+  head = 1000;
+  bindings = await createBindings();
+  env = {
+    GOVERNANCE_DB: bindings.GOVERNANCE_DB,
+    GOVERNANCE_CACHE: bindings.GOVERNANCE_CACHE,
+    ETH_RPC_URL: rpc.url,
+    SPRB_CONTRACT_ADDRESS: CONTRACT,
+    SPRB_START_BLOCK: '100',
+  } as unknown as Env;
+  rpc.requests.length = 0;
+});
+
+afterEach(() => bindings.dispose());
+
+async function balances() {
+  const { results } = await bindings.GOVERNANCE_DB
+    .prepare(`
+      SELECT address, balance, first_acquired_block AS firstAcquired, last_exited_block AS lastExited
+      FROM sprb_balances WHERE contract = ? ORDER BY address
+    `)
+    .bind(CONTRACT)
+    .all();
+  return results;
+}
+
+async function indexState() {
+  return bindings.GOVERNANCE_DB
+    .prepare('SELECT last_block AS lastBlock, caught_up AS caughtUp FROM sprb_index_state WHERE contract = ?')
+    .bind(CONTRACT)
+    .first<{ lastBlock: number; caughtUp: number }>();
+}
+
+function scannedRanges() {
+  return rpc.requests
+    .map((r) => r.body as { method: string; params: Array<{ fromBlock: string; toBlock: string }> })
+    .filter((r) => r.method === 'eth_getLogs')
+    .map((r) => [Number(r.params[0].fromBlock), Number(r.params[0].toBlock)]);
+}
+
+describe('indexSprbTransfers', () => {
+  it('refuses to run without SPRB_START_BLOCK', async () => {
+    env = { ...env, SPRB_START_BLOCK: undefined } as unknown as Env;
+
+    await expect(indexSprbTransfers(env)).rejects.toThrow(/SPRB_START_BLOCK/);
+    expect(rpc.requests).toEqual([]);
+  });
+
+  it('halves a rejected range and stops at the confirmed head', async () => {
+    const run = await indexSprbTransfers(env);
+
+    expect(run).toEqual({ contract: CONTRACT, fromBlock: 100, toBlock: 988, transfers: 2, caughtUp: true });
+    // 100–988 spans 889 blocks; the provider rejects it, so it is retried in halves
+    expect(scannedRanges()).toEqual([[100, 988], [100, 544], [545, 988]]);
+    // The burn at block 990 is not yet 12 blocks deep
+    expect(await balances()).toEqual([
+      { address: BOB, balance: (2n * ETH).toString(), firstAcquired: 600, lastExited: null },
+      { address: ALICE, balance: (3n * ETH).toString(), firstAcquired: 150, lastExited: null },
+    ]);
+    expect(await indexState()).toEqual({ lastBlock: 988, caughtUp: 1 });
+  });
+
+  it('picks up blocks that reach the confirmation depth on a later run', async () => {
+    await indexSprbTransfers(env);
+    head = 1010;
+    rpc.requests.length = 0;
+
+    const run = await indexSprbTransfers(env);
+
+    expect(run).toMatchObject({ fromBlock: 989, toBlock: 998, transfers: 1, caughtUp: true });
+    expect(scannedRanges()).toEqual([[989, 998]]);
+    expect(await balances()).toContainEqual({ address: BOB, balance: '0', firstAcquired: 600, lastExited: 990 });
+  });
+
+  it('adds nothing when a range is scanned twice', async () => {
+    await indexSprbTransfers(env);
+    const before = await balances();
+    // An interrupted run leaves the checkpoint behind ranges already stored
+    await bindings.GOVERNANCE_DB.prepare('UPDATE sprb_index_state SET last_block = 99').run();
+
+    await indexSprbTransfers(env);
+
+    expect(await balances()).toEqual(before);
+    const counts = await bindings.GOVERNANCE_DB
+      .prepare(`
+        SELECT (SELECT COUNT(*) FROM sprb_transfers) AS transfers,
+               (SELECT COUNT(*) FROM sprb_balance_history) AS history
+      `)
+      .first();
+    expect(counts).toEqual({ transfers: 2, history: 3 });
+  });
+
+  it('leaves caught_up unset until a run reaches the confirmed head', async () => {
+    env = { ...env, SPRB_BLOCK_RANGE: '10' } as unknown as Env;
+
+    const first = await indexSprbTransfers(env);
+
+    // 25 ranges of 10 blocks per run
+    expect(first).toMatchObject({ fromBlock: 100, toBlock: 349, caughtUp: false });
+    expect(await indexState()).toEqual({ lastBlock: 349, caughtUp: 0 });
+
+    const runs = [first];
+    while (!runs[runs.length - 1]?.caughtUp) runs.push(await indexSprbTransfers(env));
+    expect(runs).toHaveLength(4); // 889 blocks in ranges of 10
+    expect(await indexState()).toEqual({ lastBlock: 988, caughtUp: 1 });
+  });
+});
+
+describe('member reads during the backfill', () => {
+  beforeEach(async () => {
+    // One run of 25 ranges of 100 blocks ends at 2599, short of the confirmed head
+    head = 10_000;
+    env = { ...env, SPRB_BLOCK_RANGE: '100' } as unknown as Env;
+    await indexSprbTransfers(env);
+    rpc.requests.length = 0;
+  });
+
+  it('serves the partial ledger marked incomplete, without scanning the chain', async () => {
+    const payload = await buildMembersPayload(env);
+
+    expect(payload).toMatchObject({ complete: false, indexedThroughBlock: 2599 });
+    expect(payload.members.map((m) => m.address)).toEqual([ALICE]); // BOB exited at block 990
+    expect((await fetchMembers(env, { includeFormer: true })).map((m) => m.address).sort()).toEqual([BOB, ALICE]);
+    expect(scannedRanges()).toEqual([]);
+    // Nothing partial is cached
+    await fetchMembers(env);
+    expect(await bindings.GOVERNANCE_CACHE.get('daoip2:members')).toBeNull();
+  });
+
+  it('omits the balance of a single member', async () => {
+    const member = await fetchMember(ALICE, env);
+
+    expect(member).toMatchObject({ id: `eip155:1:${ALICE}`, address: ALICE });
+    expect(member.balance).toBeUndefined();
+    expect(scannedRanges()).toEqual([]);
+  });
+
+  it('reports the ledger complete once a run reaches the confirmed head', async () => {
+    while (!(await indexSprbTransfers(env))?.caughtUp) { /* keep scanning */ }
+
+    expect(await buildMembersPayload(env)).toMatchObject({ complete: true, indexedThroughBlock: 9988 });
+    expect(await fetchMember(BOB, env)).toMatchObject({ balance: '0', leftAt: expect.any(String) });
+  });
+});
+
+function hex(n: number | bigint): string {
+  return '0x' + n.toString(16);
+}
+
+function topic(address: string): string {
+  return '0x' + address.slice(2).padStart(64, '0');
+}
@@ -0,0 +1,106 @@
+/**
+ * Local stand-ins for what the worker talks to: D1 and KV from Miniflare, with
+ * every migration applied, and a JSON HTTP server in place of the GitHub API or
+ * an Ethereum JSON-RPC endpoint.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Miniflare } from 'miniflare';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../migrations', import.meta.url));
+
+export interface Bindings {
+  GOVERNANCE_DB: D1Database;
+  SYNC_STATE: KVNamespace;
+  GOVERNANCE_CACHE: KVNamespace;
+  dispose(): Promise<void>;
+}
+
+/**
+ * An in-memory D1 database migrated like `npm run db:migrate:local`, plus the
+ * SYNC_STATE and GOVERNANCE_CACHE namespaces. Each migration file runs as one batch.
+ */
+export async function createBindings(): Promise<Bindings> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch: () => new Response(null, { status: 404 }) }',
+    d1Databases: ['GOVERNANCE_DB'],
+    kvNamespaces: ['SYNC_STATE', 'GOVERNANCE_CACHE'],
+  });
+  const db = await mf.getD1Database('GOVERNANCE_DB') as unknown as D1Database;
+  for (const file of readdirSync(MIGRATIONS_DIR).filter((f) => f.endsWith('.sql')).sort()) {
+    await db.batch(sqlStatements(readFileSync(join(MIGRATIONS_DIR, file), 'utf8')).map((sql) => db.prepare(sql)));
+  }
+  return {
+    GOVERNANCE_DB: db,
+    SYNC_STATE: await mf.getKVNamespace('SYNC_STATE') as unknown as KVNamespace,
+    GOVERNANCE_CACHE: await mf.getKVNamespace('GOVERNANCE_CACHE') as unknown as KVNamespace,
+    dispose: () => mf.dispose(),
+  };
+}
+
+export interface StandInRequest {
+  method: string;
+  url: URL;
+  body: unknown; // parsed JSON, or undefined when the request has none
+}
+
+export interface StandInResponse {
+  status?: number; // default 200
+  body?: unknown; // a string is sent as-is, anything else as JSON
+}
+
+export interface StandIn {
+  url: string; // base URL, no trailing slash
+  requests: StandInRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Serve `handle` on a free local port and record every request it receives.
+ */
+export async function startStandIn(handle: (request: StandInRequest) => StandInResponse): Promise<StandIn> {
+  const requests: StandInRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      const request = { method: req.method ?? 'GET', url: new URL(req.url ?? '/', 'http://localhost'), body: raw ? JSON.parse(raw) : undefined };
+      requests.push(request);
+      let response: StandInResponse;
+      try {
+        response = handle(request);
+      } catch (err) {
+        response = { status: 500, body: { message: String(err) } };
+      }
+      const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body ?? {});
+      res.writeHead(response.status ?? 200, { 'Content-Type': typeof response.body === 'string' ? 'text/plain' : 'application/json' });
+      res.end(body);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+/** Split a migration into statements. The migrations hold no triggers and no ';' inside strings. */
+function sqlStatements(content: string): string[] {
+  return content
+    .replace(/--.*$/gm, '')
+    .split(';')
+    .map((sql) => sql.trim())
+    .filter(Boolean);
+}
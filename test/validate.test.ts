@@ -0,0 +1,167 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { r2KeyForPath } from '../src/sync/store';
+import { getValidationReport, validatePullRequest } from '../src/sync/validate';
+import { createBindings, startStandIn, type Bindings, type StandIn } from './stand-ins';
+
+const REPO = 'superbenefit/governance';
+const SHA = 'c0ffee0000000000000000000000000000000000';
+const PULL = 42;
+
+// The pull request the GitHub stand-in serves: changed files and their content at SHA
+let prFiles: Array<{ filename: string; status: string }> | null; // null answers 500
+let contents: Record<string, string>;
+
+let github: StandIn;
+let bindings: Bindings;
+let env: Env;
+
+beforeAll(async () => {
+  github = await startStandIn(({ method, url }) => {
+    const path = decodeURIComponent(url.pathname);
+    if (method === 'GET' && path === `/repos/${REPO}/pulls/${PULL}/files`) {
+      return prFiles ? { body: prFiles } : { status: 500, body: { message: 'Server Error' } };
+    }
+    if (method === 'GET' && path.startsWith(`/repos/${REPO}/contents/`)) {
+      const content = url.searchParams.get('ref') === SHA ? contents[path.slice(`/repos/${REPO}/contents/`.length)] : undefined;
+      return content === undefined ? { status: 404, body: { message: 'Not Found' } } : { body: content };
+    }
+    if (method === 'POST' && path === `/repos/${REPO}/statuses/${SHA}`) {
+      return { status: 201, body: {} };
+    }
+    return { status: 404, body: { message: 'Not Found' } };
+  });
+});
+
+afterAll(() => github.close());
+
+beforeEach(async () => {
+  bindings = await createBindings();
+  env = {
+    GOVERNANCE_DB: bindings.GOVERNANCE_DB,
+    SYNC_STATE: bindings.SYNC_STATE,
+    GOVERNANCE_REPO: REPO,
+    GITHUB_TOKEN: 'test-token',
+    GITHUB_API_URL: github.url,
+  } as unknown as Env;
+  await bindings.GOVERNANCE_DB
+    .prepare(`INSERT INTO documents (id, slug, type, title, status, r2_key) VALUES ('operating-agreement', 'operating-agreement', 'agreement', 'Operating Agreement', 'active', ?)`)
+    .bind(r2KeyForPath('agreements/operating-agreement.md'))
+    .run();
+  github.requests.length = 0;
+});
+
+afterEach(() => bindings.dispose());
+
+function statuses() {
+  return github.requests
+    .filter((r) => r.method === 'POST')
+    .map((r) => r.body as { state: string; context: string; description: string });
+}
+
+function policy(frontmatter: string): string {
+  return `---\ntitle: Test Policy\ntype: policy\nstatus: draft\n${frontmatter}\n---\n\nBody.\n`;
+}
+
+describe('validatePullRequest', () => {
+  it('posts pending, then success for a clean pull request', async () => {
+    prFiles = [{ filename: 'policies/test-policy.md', status: 'added' }];
+    contents = { 'policies/test-policy.md': policy('domain: treasury\nrelated:\n  - authorized_by: operating-agreement') };
+
+    const report = await validatePullRequest(env, { pullRequest: PULL, commitSha: SHA, reportOrigin: 'https://example.test' });
+
+    expect(report).toMatchObject({ errors: 0, warnings: 0, filesChecked: 1, files: [] });
+    expect(statuses().map((s) => s.state)).toEqual(['pending', 'success']);
+    expect(statuses()[1]).toMatchObject({
+      context: 'governance-server/frontmatter',
+      description: '0 error(s), 0 warning(s) in 1 file(s)',
+    });
+    expect(await getValidationReport(env, SHA)).toEqual(report);
+  });
+
+  it('fails on a relationship no document on main or in the pull request provides', async () => {
+    prFiles = [
+      { filename: 'policies/test-policy.md', status: 'added' },
+      { filename: 'policies/sibling.md', status: 'added' },
+    ];
+    contents = {
+      'policies/test-policy.md': policy('related:\n  - authorized_by: missing-agreement\n  - implements: sibling'),
+      'policies/sibling.md': policy(''),
+    };
+
+    const report = await validatePullRequest(env, { pullRequest: PULL, commitSha: SHA, reportOrigin: 'https://example.test' });
+
+    expect(report.errors).toBe(1);
+    expect(report.files).toEqual([{
+      path: 'policies/test-policy.md',
+      diagnostics: [expect.objectContaining({ severity: 'error', code: 'unresolved_relationship' })],
+    }]);
+    expect(statuses().map((s) => s.state)).toEqual(['pending', 'failure']);
+  });
+
+  it('fails on a relationship to a document the pull request removes', async () => {
+    prFiles = [
+      { filename: 'agreements/operating-agreement.md', status: 'removed' },
+      { filename: 'policies/test-policy.md', status: 'added' },
+    ];
+    contents = { 'policies/test-policy.md': policy('related:\n  - authorized_by: operating-agreement') };
+
+    const report = await validatePullRequest(env, { pullRequest: PULL, commitSha: SHA, reportOrigin: 'https://example.test' });
+
+    expect(report.files[0].diagnostics).toEqual([expect.objectContaining({ code: 'unresolved_relationship' })]);
+    expect(statuses().map((s) => s.state)).toEqual(['pending', 'failure']);
+  });
+
+  it('checks documents against the domains a changed domains.yml lists', async () => {
+    prFiles = [
+      { filename: 'domains.yml', status: 'modified' },
+      { filename: 'policies/test-policy.md', status: 'added' },
+    ];
+    contents = {
+      'domains.yml': 'domains:\n  - slug: grants\n    name: Grants\n    type: governance_function\n',
+      'policies/test-policy.md': policy('domains: [grants, treasury]'),
+    };
+
+    const report = await validatePullRequest(env, { pullRequest: PULL, commitSha: SHA, reportOrigin: 'https://example.test' });
+
+    expect(report.filesChecked).toBe(2);
+    // grants is new in the PR; treasury is seeded in D1 but the proposed file drops it
+    expect(report.files).toEqual([{
+      path: 'policies/test-policy.md',
+      diagnostics: [expect.objectContaining({ severity: 'warning', code: 'removed_domain', message: expect.stringContaining('"treasury"') })],
+    }]);
+    expect(statuses().map((s) => s.state)).toEqual(['pending', 'success']);
+  });
+
+  it('reports an unreadable domains.yml as an error', async () => {
+    prFiles = [{ filename: 'domains.yml', status: 'modified' }];
+    contents = { 'domains.yml': 'treasury: {}\n' };
+
+    const report = await validatePullRequest(env, { pullRequest: PULL, commitSha: SHA, reportOrigin: 'https://example.test' });
+
+    expect(report.files).toEqual([{
+      path: 'domains.yml',
+      diagnostics: [expect.objectContaining({ severity: 'error', code: 'invalid_domains_file' })],
+    }]);
+    expect(statuses().map((s) => s.state)).toEqual(['pending', 'failure']);
+  });
+
+  it('reports a file GitHub cannot serve as fetch_failed', async () => {
+    prFiles = [{ filename: 'policies/test-policy.md', status: 'modified' }];
+    contents = {};
+
+    const report = await validatePullRequest(env, { pullRequest: PULL, commitSha: SHA, reportOrigin: 'https://example.test' });
+
+    expect(report.files[0].diagnostics).toEqual([expect.objectContaining({ severity: 'error', code: 'fetch_failed' })]);
+    expect(statuses().map((s) => s.state)).toEqual(['pending', 'failure']);
+  });
+
+  it('posts an error status and rethrows when the file listing fails', async () => {
+    prFiles = null;
+
+    await expect(validatePullRequest(env, { pullRequest: PULL, commitSha: SHA, reportOrigin: 'https://example.test' }))
+      .rejects.toThrow(/GitHub API error/);
+
+    expect(statuses().map((s) => s.state)).toEqual(['pending', 'error']);
+    expect(await getValidationReport(env, SHA)).toBeNull();
+  });
+});